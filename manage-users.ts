@@ -0,0 +1,207 @@
+import 'dotenv/config';
+import * as fs from 'fs';
+import path from 'path';
+import { auditLog } from './src/audit/auditLog.js';
+import { bootstrapTokens } from './src/auth/bootstrapToken.js';
+import { exportRoster, importResultToCsv, importRoster } from './src/auth/roster.js';
+import { sessionStorage } from './src/auth/sessionStorage.js';
+import { changeRole, deleteUserWithProjects, generatePassword, parseRole } from './src/auth/userManagement.js';
+import { userStorage, type User } from './src/auth/userStorage.js';
+import { courseStorage, type Course } from './src/courses/courseStorage.js';
+import { RevisionStorage } from './src/projects/revisionStorage.js';
+import { repositories, storageConfig } from './src/storage/index.js';
+
+// User management from the command line. The JSON backend keeps everything in
+// memory, so stop the server first or its next write undoes these changes.
+
+const USAGE = `Usage: npm run users -- <command> [arguments]
+
+Commands:
+  list [--role <role>] [--course <id or name>]
+  create-admin <email> <password> <name>
+  create-admin --token                     Print a one-time token for /setup.html
+  set-role <email> <admin|teacher|student>
+  reset-password <email> [password]        Generates a password when none is given
+  delete <email> --yes                     Deletes the user with all their projects
+  import <file.csv> [--course <id or name>] [--passwords <file.csv>]
+  export [file.csv] [--course <id or name>]
+
+Roster CSV columns: email, name and optionally role, course and password.`;
+
+class UsageError extends Error {}
+
+// Splits "--name value" options from the positional arguments
+function parseArgs(args: string[]): { positional: string[]; options: Map<string, string | true> } {
+  const positional: string[] = [];
+  const options = new Map<string, string | true>();
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      positional.push(args[i]);
+    } else if (args[i + 1] !== undefined && !args[i + 1].startsWith('--')) {
+      options.set(args[i].slice(2), args[++i]);
+    } else {
+      options.set(args[i].slice(2), true);
+    }
+  }
+  return { positional, options };
+}
+
+function findUser(email: string | undefined): User {
+  if (!email) throw new UsageError('An email address is required');
+  const user = userStorage.findByEmail(email);
+  if (!user) throw new Error(`No user with the email ${email}`);
+  return user;
+}
+
+function findCourse(value: string | true | undefined): Course | undefined {
+  if (value === undefined) return undefined;
+  if (value === true) throw new UsageError('--course needs a course id or name');
+  const course = courseStorage.findById(value) ?? courseStorage.findByName(value);
+  if (!course) throw new Error(`Unknown course "${value}"`);
+  return course;
+}
+
+function recordAudit(action: Parameters<typeof auditLog.record>[0], user: User, details: Record<string, unknown> = {}) {
+  auditLog.record(action, { targetType: 'user', targetId: user.id, details: { ...details, email: user.email, via: 'cli' } });
+}
+
+function listUsers(options: Map<string, string | true>) {
+  const role = options.get('role');
+  const course = findCourse(options.get('course'));
+  const courseNames = new Map(courseStorage.getAllCourses().map(c => [c.id, c.name]));
+
+  const users = userStorage.getAllUsers()
+    .filter(u => role === undefined || u.role === role)
+    .filter(u => !course || u.courseId === course.id);
+  for (const user of users) {
+    const courseName = user.courseId ? courseNames.get(user.courseId) ?? user.courseId : '-';
+    console.log([user.email, user.name, user.role, courseName, user.createdAt.slice(0, 10)].join('\t'));
+  }
+  console.log(`\n${users.length} user(s)`);
+}
+
+// With --token only a one-time setup token is printed, for servers where
+// the admin should pick their own password on /setup.html
+async function createAdmin(positional: string[], options: Map<string, string | true>) {
+  if (options.has('token')) {
+    const { token, expiresAt } = bootstrapTokens.issue();
+    console.log('🔑 One-time setup token created.');
+    console.log('Token:', token);
+    console.log('Valid until:', expiresAt);
+    console.log('\nOpen /setup.html?token=' + token + ' on the server to create the admin account.');
+    return;
+  }
+
+  const [email, password, name] = positional;
+  if (!email || !password || !name) {
+    throw new UsageError('create-admin needs <email> <password> <name>, e.g. admin@example.com mypassword "Admin Name"');
+  }
+
+  const user = await userStorage.createUser(email, password, name, 'admin');
+  userStorage.markEmailVerified(user.id);
+  console.log('✅ Admin user created successfully!');
+  console.log('Email:', user.email);
+  console.log('Name:', user.name);
+  console.log('Role:', user.role);
+  console.log('\nYou can now login with these credentials.');
+}
+
+async function setRole(positional: string[]) {
+  const user = findUser(positional[0]);
+  const role = parseRole(positional[1]);
+  await changeRole(user, role);
+  recordAudit('user.role_changed', user, { from: user.role, to: role });
+  console.log(`✅ ${user.email} is now ${role}`);
+}
+
+async function resetPassword(positional: string[]) {
+  const user = findUser(positional[0]);
+  const password = positional[1] || generatePassword();
+  await userStorage.updatePassword(user.id, password);
+  const revoked = sessionStorage.revokeAll(user.id);
+  recordAudit('user.password_reset', user);
+  console.log(`✅ New password for ${user.email}: ${password}`);
+  console.log(`Ended ${revoked} session(s)`);
+}
+
+async function deleteUser(positional: string[], options: Map<string, string | true>) {
+  const user = findUser(positional[0]);
+  if (!options.has('yes')) {
+    const projects = repositories.projects.findByUserId(user.id).length;
+    throw new UsageError(`This deletes ${user.email} and ${projects} project(s). Add --yes to confirm.`);
+  }
+
+  const revisionStorage = new RevisionStorage(path.join(storageConfig.projectsDir, 'revisions'));
+  const { projects } = await deleteUserWithProjects(user, revisionStorage);
+  recordAudit('user.deleted', user, { projects });
+  console.log(`✅ Deleted ${user.email} and ${projects} project(s)`);
+}
+
+async function importUsers(positional: string[], options: Map<string, string | true>) {
+  const file = positional[0];
+  if (!file) throw new UsageError('import needs a CSV file');
+  const passwordsFile = options.get('passwords');
+  if (passwordsFile === true) throw new UsageError('--passwords needs a file name');
+
+  const result = await importRoster(fs.readFileSync(file, 'utf-8'), { defaultCourse: findCourse(options.get('course')) });
+  if (result.created.length > 0) {
+    auditLog.record('user.imported', { details: { created: result.created.map(u => u.id), skipped: result.skipped.length, via: 'cli' } });
+  }
+
+  for (const user of result.created) {
+    console.log(`✅ ${user.email} (${user.role}${user.courseName ? `, ${user.courseName}` : ''})`);
+  }
+  for (const line of result.skipped) {
+    console.log(`⚠️  Line ${line.line} ${line.email}: ${line.reason}`);
+  }
+  console.log(`\n${result.created.length} created, ${result.skipped.length} skipped`);
+
+  if (result.created.some(u => u.password)) {
+    if (passwordsFile) {
+      fs.writeFileSync(passwordsFile, importResultToCsv(result));
+      console.log(`Generated passwords were written to ${passwordsFile}`);
+    } else {
+      console.log('\nGenerated passwords:');
+      result.created.filter(u => u.password).forEach(u => console.log(`${u.email}\t${u.password}`));
+    }
+  }
+}
+
+function exportUsers(positional: string[], options: Map<string, string | true>) {
+  const course = findCourse(options.get('course'));
+  const users = userStorage.getAllUsers().filter(u => !course || u.courseId === course.id);
+  const csv = exportRoster(users, courseStorage.getAllCourses());
+
+  if (positional[0]) {
+    fs.writeFileSync(positional[0], csv);
+    console.log(`✅ Exported ${users.length} user(s) to ${positional[0]}`);
+  } else {
+    process.stdout.write(csv);
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+
+  try {
+    switch (command) {
+      case 'list': listUsers(options); break;
+      case 'create-admin': await createAdmin(positional, options); break;
+      case 'set-role': await setRole(positional); break;
+      case 'reset-password': await resetPassword(positional); break;
+      case 'delete': await deleteUser(positional, options); break;
+      case 'import': await importUsers(positional, options); break;
+      case 'export': exportUsers(positional, options); break;
+      default: throw new UsageError(command ? `Unknown command "${command}"` : 'No command given');
+    }
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exitCode = 1;
+  } finally {
+    repositories.close();
+  }
+}
+
+main();
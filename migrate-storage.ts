@@ -0,0 +1,138 @@
+import 'dotenv/config';
+import { createRepositories, getStorageConfig, type StorageBackend } from './src/storage/createRepositories.js';
+
+const BACKENDS: StorageBackend[] = ['json', 'sqlite'];
+
+async function migrateStorage() {
+  const args = process.argv.slice(2);
+  const overwrite = args.includes('--overwrite');
+  const [from, to] = args.filter(arg => !arg.startsWith('--')) as StorageBackend[];
+
+  if (!BACKENDS.includes(from) || !BACKENDS.includes(to) || from === to) {
+    console.error('Usage: npm run migrate-storage <from> <to> [--overwrite]');
+    console.error('Example: npm run migrate-storage json sqlite');
+    console.error('Backends: json (USERS_DIR, PROJECTS_DIR, COURSES_DIR, PUBLICATIONS_DIR, SESSIONS_DIR, USAGE_DIR), sqlite (SQLITE_FILE)');
+    process.exit(1);
+  }
+
+  const baseConfig = getStorageConfig();
+  const source = await createRepositories({ ...baseConfig, backend: from });
+  const target = await createRepositories({ ...baseConfig, backend: to });
+
+  try {
+    let copiedUsers = 0;
+    let skippedUsers = 0;
+    for (const user of source.users.findAll()) {
+      // Existing records are kept unless --overwrite, so the migration can be re-run
+      if (!overwrite && (target.users.findById(user.id) || target.users.findByEmail(user.email))) {
+        skippedUsers++;
+        continue;
+      }
+      target.users.save(user);
+      copiedUsers++;
+    }
+
+    let copiedProjects = 0;
+    let skippedProjects = 0;
+    for (const project of source.projects.findAll()) {
+      if (!overwrite && target.projects.findById(project.id)) {
+        skippedProjects++;
+        continue;
+      }
+      target.projects.save(project);
+      copiedProjects++;
+    }
+
+    let copiedCourses = 0;
+    let skippedCourses = 0;
+    for (const course of source.courses.findAll()) {
+      if (!overwrite && target.courses.findById(course.id)) {
+        skippedCourses++;
+        continue;
+      }
+      target.courses.save(course);
+      copiedCourses++;
+    }
+
+    let copiedPublications = 0;
+    let skippedPublications = 0;
+    for (const publication of source.publications.findAll()) {
+      if (!overwrite && target.publications.findById(publication.id)) {
+        skippedPublications++;
+        continue;
+      }
+      target.publications.save(publication);
+      copiedPublications++;
+    }
+
+    let copiedTemplates = 0;
+    let skippedTemplates = 0;
+    for (const template of source.templates.findAll()) {
+      if (!overwrite && target.templates.findById(template.id)) {
+        skippedTemplates++;
+        continue;
+      }
+      target.templates.save(template);
+      copiedTemplates++;
+    }
+
+    // Copied as well so nobody has to log in again after switching
+    let copiedSessions = 0;
+    for (const user of source.users.findAll()) {
+      for (const session of source.sessions.findByUserId(user.id)) {
+        if (overwrite || !target.sessions.findById(session.id)) {
+          target.sessions.save(session);
+          copiedSessions++;
+        }
+      }
+    }
+
+    // Usage records never change, so copying the missing ones is enough
+    const existingUsage = new Set(target.usage.findAll().map(record => record.id));
+    let copiedUsage = 0;
+    for (const record of source.usage.findAll()) {
+      if (!existingUsage.has(record.id)) {
+        target.usage.add(record);
+        copiedUsage++;
+      }
+    }
+
+    const existingRuns = new Set(target.runs.findAll().map(run => run.id));
+    let copiedRuns = 0;
+    for (const run of source.runs.findAll()) {
+      if (!existingRuns.has(run.id)) {
+        target.runs.add(run);
+        copiedRuns++;
+      }
+    }
+
+    const existingAudit = new Set(target.audit.findAll().map(entry => entry.id));
+    let copiedAudit = 0;
+    for (const entry of source.audit.findAll()) {
+      if (!existingAudit.has(entry.id)) {
+        target.audit.add(entry);
+        copiedAudit++;
+      }
+    }
+
+    console.log(`✅ Migrated storage from ${from} to ${to}`);
+    console.log(`Users: ${copiedUsers} copied, ${skippedUsers} already present`);
+    console.log(`Projects: ${copiedProjects} copied, ${skippedProjects} already present`);
+    console.log(`Courses: ${copiedCourses} copied, ${skippedCourses} already present`);
+    console.log(`Publications: ${copiedPublications} copied, ${skippedPublications} already present`);
+    console.log(`Templates: ${copiedTemplates} copied, ${skippedTemplates} already present`);
+    console.log(`Sessions: ${copiedSessions} copied`);
+    console.log(`Usage records: ${copiedUsage} copied`);
+    console.log(`Runs: ${copiedRuns} copied`);
+    console.log(`Audit entries: ${copiedAudit} copied`);
+    console.log(`\nSet STORAGE_BACKEND=${to} to use the migrated data.`);
+  } catch (error) {
+    console.error('❌ Error migrating storage:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    source.close();
+    target.close();
+  }
+}
+
+migrateStorage();
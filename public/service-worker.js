@@ -49,6 +49,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Skip project previews, they change with every iteration
+  if (event.request.url.includes('/preview/')) {
+    return;
+  }
+
   event.respondWith(
     caches.match(event.request)
       .then((response) => {
@@ -1,5 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
+import type Anthropic from '@anthropic-ai/sdk';
 import sharp from 'sharp';
+import { executeFileTool, fileTools } from './fileTools.js';
+import { createModelProvider, type ModelProvider } from './modelProvider.js';
+import { getModelSettings, type ModelSettings } from './modelSettings.js';
+import { normalizeFilePath } from '../preview/previewFiles.js';
+import { formatValidationReport, validateFiles, type ValidationReport } from './validateFiles.js';
+import { getTokenUsage, type TokenUsage } from '../usage/tokenUsage.js';
 
 interface GeneratedFile {
   path: string;
@@ -8,6 +14,26 @@ interface GeneratedFile {
 
 interface AppGenerationResult {
   files: GeneratedFile[];
+  validation: ValidationReport; // Checks on the final files
+}
+
+// How often the model is sent back to fix problems after it wanted to finish
+const MAX_REPAIR_ROUNDS = 2;
+
+// Progress events emitted while the agentic loop runs
+export type AgentEvent =
+  | { type: 'turn_started'; turn: number }
+  | { type: 'file_written'; turn: number; path: string; size: number }
+  | { type: 'file_deleted'; turn: number; path: string }
+  | { type: 'file_renamed'; turn: number; from: string; to: string }
+  | { type: 'stop_reason'; turn: number; stopReason: string | null }
+  | { type: 'validation'; turn: number; ok: boolean; issues: number };
+
+export interface CreateAppOptions {
+  onEvent?: (event: AgentEvent) => void;
+  onUsage?: (usage: TokenUsage) => void; // Called after every API call, also when the run fails later
+  settings?: ModelSettings; // Model and limits, from the environment by default
+  provider?: ModelProvider; // The provider named in the settings by default
 }
 
 // Helper function to compress and validate images
@@ -69,27 +95,6 @@ function validateImageSize(buffer: Buffer, maxSizeMB: number = 5): boolean {
   return buffer.length <= maxSizeBytes;
 }
 
-const tools: Anthropic.Tool[] = [
-  {
-    name: 'write_file',
-    description: 'Create or overwrite a file with the given content. Use this to generate HTML, CSS, JavaScript, or any other files needed for the app.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        path: {
-          type: 'string',
-          description: 'The file path relative to the app root (e.g., "index.html", "styles.css", "app.js")'
-        },
-        content: {
-          type: 'string',
-          description: 'The complete content of the file'
-        }
-      },
-      required: ['path', 'content']
-    }
-  }
-];
-
 // Helper function to process message content and handle oversized images
 async function processMessageContent(content: any): Promise<any> {
   if (typeof content === 'string') {
@@ -138,21 +143,26 @@ async function processMessageContent(content: any): Promise<any> {
 export async function createApp(
   prompt: string,
   existingFiles?: GeneratedFile[],
-  uploadedFiles?: Array<{ name: string; type: string; data: string; url?: string }>
+  uploadedFiles?: Array<{ name: string; type: string; data: string; url?: string }>,
+  options: CreateAppOptions = {}
 ): Promise<AppGenerationResult> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY environment variable is not set');
-  }
-
-  const client = new Anthropic({ apiKey });
+  const settings = options.settings ?? getModelSettings();
+  const provider = options.provider ?? createModelProvider(settings.provider);
   const generatedFiles: Map<string, string> = new Map();
 
+  const emit = (event: AgentEvent) => {
+    try {
+      options.onEvent?.(event);
+    } catch (error) {
+      // A broken listener must never abort the generation
+      console.error('Agent event listener error:', error);
+    }
+  };
+
   // If updating existing project, pre-populate with existing files
   if (existingFiles && existingFiles.length > 0) {
     existingFiles.forEach(file => {
-      generatedFiles.set(file.path, file.content);
+      generatedFiles.set(normalizeFilePath(file.path) || file.path, file.content);
     });
   }
 
@@ -166,8 +176,10 @@ IMPORTANT INSTRUCTIONS FOR UPDATES:
 - You will be provided with the current files of the app
 - ONLY modify the parts that need to change based on the user's request
 - Keep all other functionality and styling exactly as they are
-- Use the write_file tool to write the UPDATED versions of files
-- Only write files that actually need to be changed
+- Prefer the edit_file tool for targeted changes: replace only the exact snippet that needs to change
+- Use write_file only for new files or when most of a file changes
+- Use read_file and list_files to check the current state, delete_file and rename_file to reorganize files
+- Only touch files that actually need to be changed
 - Make minimal, targeted changes - don't rewrite the entire app unless necessary
 
 The user wants to make specific changes to their existing app. Be surgical and precise.`
@@ -300,17 +312,28 @@ DO NOT use base64 data URIs - use the URLs provided above!`;
       }
     ];
 
+    let repairRounds = 0;
+
     // Agentic loop - allow Claude to use tools multiple times
-    for (let i = 0; i < 10; i++) {
-      const response = await client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 16000,
+    for (let i = 0; i < settings.maxTurns; i++) {
+      emit({ type: 'turn_started', turn: i + 1 });
+
+      const response = await provider.createMessage({
+        model: settings.model,
+        maxTokens: settings.maxTokens,
         system: systemPrompt,
-        tools,
+        tools: fileTools,
         messages
       });
 
+      try {
+        options.onUsage?.(getTokenUsage(response));
+      } catch (error) {
+        console.error('Usage listener error:', error);
+      }
+
       console.log('Response:', response.stop_reason);
+      emit({ type: 'stop_reason', turn: i + 1, stopReason: response.stop_reason });
 
       // Check for tool uses in the response
       const hasToolUse = response.content.some(block => block.type === 'tool_use');
@@ -324,34 +347,48 @@ DO NOT use base64 data URIs - use the URLs provided above!`;
       // If there are tool uses, process them
       if (hasToolUse) {
         const toolResults: Anthropic.ToolResultBlockParam[] = [];
+        let filesChanged = false;
 
         for (const block of response.content) {
           if (block.type === 'tool_use') {
             console.log('Tool use:', block.name, block.input);
 
-            if (block.name === 'write_file') {
-              const input = block.input as { path?: string; content?: string };
-
-              if (input.path && input.content) {
-                generatedFiles.set(input.path, input.content);
-                toolResults.push({
-                  type: 'tool_result',
-                  tool_use_id: block.id,
-                  content: `File ${input.path} created successfully with ${input.content.length} characters`
-                });
-              } else {
-                // Handle incomplete tool call (e.g., max_tokens reached)
-                toolResults.push({
-                  type: 'tool_result',
-                  tool_use_id: block.id,
-                  content: 'Error: Incomplete file data. Please try again with a simpler request.',
-                  is_error: true
-                });
-              }
+            const outcome = executeFileTool(block.name, block.input, generatedFiles);
+            toolResults.push({
+              type: 'tool_result',
+              tool_use_id: block.id,
+              content: outcome.content,
+              ...(outcome.isError ? { is_error: true } : {})
+            });
+
+            filesChanged = filesChanged || outcome.change !== undefined;
+
+            if (outcome.change?.type === 'written') {
+              emit({ type: 'file_written', turn: i + 1, path: outcome.change.path, size: outcome.change.size });
+            } else if (outcome.change?.type === 'deleted') {
+              emit({ type: 'file_deleted', turn: i + 1, path: outcome.change.path });
+            } else if (outcome.change?.type === 'renamed') {
+              emit({ type: 'file_renamed', turn: i + 1, from: outcome.change.from, to: outcome.change.to });
             }
           }
         }
 
+        // Check the files after every change and report problems with the tool results,
+        // so they get fixed while the model is still working on the app
+        if (filesChanged && toolResults.length > 0) {
+          const report = validateFiles(generatedFiles);
+          emit({ type: 'validation', turn: i + 1, ok: report.ok, issues: report.issues.length });
+
+          if (!report.ok) {
+            const lastResult = toolResults[toolResults.length - 1];
+            lastResult.content = `${lastResult.content}
+
+Automatic checks found ${report.issues.length} problem(s) in the current files:
+${formatValidationReport(report)}
+Fix them before finishing. Missing files you are about to create anyway can be ignored.`;
+          }
+        }
+
         // Add tool results to conversation
         if (toolResults.length > 0) {
           messages.push({
@@ -360,8 +397,21 @@ DO NOT use base64 data URIs - use the URLs provided above!`;
           });
         }
       } else {
-        // No more tool uses, we're done
-        break;
+        // The model is done - only let it finish if the checks pass
+        const report = validateFiles(generatedFiles);
+        if (report.ok || repairRounds >= MAX_REPAIR_ROUNDS || i === settings.maxTurns - 1) {
+          break;
+        }
+
+        repairRounds++;
+        emit({ type: 'validation', turn: i + 1, ok: false, issues: report.issues.length });
+        messages.push({
+          role: 'user',
+          content: `Automatic checks found ${report.issues.length} problem(s) in the app:
+${formatValidationReport(report)}
+
+Please fix them with the file tools.`
+        });
       }
     }
 
@@ -376,7 +426,12 @@ DO NOT use base64 data URIs - use the URLs provided above!`;
       throw new Error('No files were generated. Please try again with a more specific prompt.');
     }
 
-    return { files };
+    const validation = validateFiles(generatedFiles);
+    if (!validation.ok) {
+      console.log('Validation issues remaining:', validation.issues.length);
+    }
+
+    return { files, validation };
 
   } catch (error) {
     console.error('Agent error:', error);
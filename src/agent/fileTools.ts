@@ -0,0 +1,264 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { normalizeFilePath } from '../preview/previewFiles.js';
+
+export interface ToolOutcome {
+  content: string;
+  isError: boolean;
+  // What happened to the file set, used for progress events
+  change?:
+    | { type: 'written'; path: string; size: number }
+    | { type: 'deleted'; path: string }
+    | { type: 'renamed'; from: string; to: string };
+}
+
+export const fileTools: Anthropic.Tool[] = [
+  {
+    name: 'write_file',
+    description: 'Create or overwrite a file with the given content. Use this to generate HTML, CSS, JavaScript, or any other files needed for the app. For small changes to an existing file prefer edit_file.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path relative to the app root (e.g., "index.html", "styles.css", "app.js")'
+        },
+        content: {
+          type: 'string',
+          description: 'The complete content of the file'
+        }
+      },
+      required: ['path', 'content']
+    }
+  },
+  {
+    name: 'read_file',
+    description: 'Read the current content of a file of the app.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path relative to the app root'
+        }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'list_files',
+    description: 'List all files of the app with their size in characters.',
+    input_schema: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  {
+    name: 'edit_file',
+    description: 'Replace an exact snippet in an existing file. old_string must match the file exactly (including whitespace) and must be unique in the file unless replace_all is true. Include enough surrounding lines to make it unique. Use this instead of write_file for targeted changes.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path relative to the app root'
+        },
+        old_string: {
+          type: 'string',
+          description: 'The exact text to replace'
+        },
+        new_string: {
+          type: 'string',
+          description: 'The text to replace it with'
+        },
+        replace_all: {
+          type: 'boolean',
+          description: 'Replace every occurrence instead of requiring a unique match (default false)'
+        }
+      },
+      required: ['path', 'old_string', 'new_string']
+    }
+  },
+  {
+    name: 'delete_file',
+    description: 'Delete a file from the app.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path relative to the app root'
+        }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'rename_file',
+    description: 'Rename or move a file. Fails if the target path already exists. Remember to update references to the file in other files.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'The current file path relative to the app root'
+        },
+        to: {
+          type: 'string',
+          description: 'The new file path relative to the app root'
+        }
+      },
+      required: ['from', 'to']
+    }
+  }
+];
+
+function error(content: string): ToolOutcome {
+  return { content: `Error: ${content}`, isError: true };
+}
+
+// Validate a path from tool input, returns the normalized path or an error outcome
+function resolvePath(value: unknown, field = 'path'): string | ToolOutcome {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return error(`Missing "${field}". The tool call may have been cut off, please try again.`);
+  }
+  const normalized = normalizeFilePath(value.trim());
+  if (!normalized) {
+    return error(`Invalid ${field} "${value}". Paths must be relative to the app root.`);
+  }
+  return normalized;
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+// Apply one tool call to the in-memory file set
+export function executeFileTool(name: string, input: unknown, files: Map<string, string>): ToolOutcome {
+  const args = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  switch (name) {
+    case 'write_file': {
+      const path = resolvePath(args.path);
+      if (typeof path !== 'string') return path;
+
+      // Handle incomplete tool call (e.g., max_tokens reached)
+      if (typeof args.content !== 'string') {
+        return error('Incomplete file data. Please try again with a simpler request, or use edit_file for smaller changes.');
+      }
+
+      files.set(path, args.content);
+      return {
+        content: `File ${path} created successfully with ${args.content.length} characters`,
+        isError: false,
+        change: { type: 'written', path, size: args.content.length }
+      };
+    }
+
+    case 'read_file': {
+      const path = resolvePath(args.path);
+      if (typeof path !== 'string') return path;
+
+      const content = files.get(path);
+      if (content === undefined) {
+        return error(`File ${path} does not exist. Use list_files to see the available files.`);
+      }
+      return { content, isError: false };
+    }
+
+    case 'list_files': {
+      if (files.size === 0) {
+        return { content: 'The app has no files yet.', isError: false };
+      }
+      const listing = Array.from(files.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([path, content]) => `${path} (${content.length} characters)`)
+        .join('\n');
+      return { content: listing, isError: false };
+    }
+
+    case 'edit_file': {
+      const path = resolvePath(args.path);
+      if (typeof path !== 'string') return path;
+
+      const { old_string: oldString, new_string: newString, replace_all: replaceAll } = args;
+      if (typeof oldString !== 'string' || typeof newString !== 'string') {
+        return error('Missing "old_string" or "new_string". The tool call may have been cut off, please try again.');
+      }
+      if (oldString === '') {
+        return error('"old_string" must not be empty. Use write_file to create a file.');
+      }
+      if (oldString === newString) {
+        return error('"old_string" and "new_string" are identical, nothing to change.');
+      }
+
+      const content = files.get(path);
+      if (content === undefined) {
+        return error(`File ${path} does not exist. Use write_file to create it.`);
+      }
+
+      const occurrences = countOccurrences(content, oldString);
+      if (occurrences === 0) {
+        return error(`"old_string" was not found in ${path}. Use read_file to check the current content and match it exactly.`);
+      }
+      if (occurrences > 1 && replaceAll !== true) {
+        return error(`"old_string" occurs ${occurrences} times in ${path}. Add surrounding lines to make it unique, or set replace_all to true.`);
+      }
+
+      // No String.replace, so "$" sequences in new_string are never treated as patterns
+      const index = content.indexOf(oldString);
+      const updated = replaceAll === true
+        ? content.split(oldString).join(newString)
+        : content.slice(0, index) + newString + content.slice(index + oldString.length);
+
+      files.set(path, updated);
+      return {
+        content: `File ${path} edited successfully (${occurrences} replacement${occurrences === 1 ? '' : 's'}, now ${updated.length} characters)`,
+        isError: false,
+        change: { type: 'written', path, size: updated.length }
+      };
+    }
+
+    case 'delete_file': {
+      const path = resolvePath(args.path);
+      if (typeof path !== 'string') return path;
+
+      if (!files.has(path)) {
+        return error(`File ${path} does not exist.`);
+      }
+
+      files.delete(path);
+      return { content: `File ${path} deleted`, isError: false, change: { type: 'deleted', path } };
+    }
+
+    case 'rename_file': {
+      const from = resolvePath(args.from, 'from');
+      if (typeof from !== 'string') return from;
+      const to = resolvePath(args.to, 'to');
+      if (typeof to !== 'string') return to;
+
+      const content = files.get(from);
+      if (content === undefined) {
+        return error(`File ${from} does not exist.`);
+      }
+      if (from === to) {
+        return error('"from" and "to" are the same path.');
+      }
+      if (files.has(to)) {
+        return error(`File ${to} already exists. Delete it first if you want to replace it.`);
+      }
+
+      files.delete(from);
+      files.set(to, content);
+      return { content: `File ${from} renamed to ${to}`, isError: false, change: { type: 'renamed', from, to } };
+    }
+
+    default:
+      return error(`Unknown tool "${name}".`);
+  }
+}
@@ -0,0 +1,141 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { renderPreviewApp } from '../templates/previewTemplate.js';
+import type { ModelProvider, ModelRequest, ModelResponse } from './modelProvider.js';
+
+// Works without network and without an API key. It plays a fixed script
+// through the real file tools, so queue, events, validation, revisions and
+// usage all run as with a real model:
+//   1. list_files
+//   2. read_file index.html if there is one, otherwise write_file a preview page
+//   3. edit_file to add a note with the request before </body>
+//   4. finish with a short text
+// Each step depends only on the conversation, the same request always gives
+// the same answer. Requests without tools get suggestions as JSON.
+
+const MODEL = 'mock';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A rough count, about four characters per token
+function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value ?? '').length / 4);
+}
+
+function textOf(content: Anthropic.MessageParam['content']): string {
+  if (typeof content === 'string') return content;
+  return content.map(block => (block.type === 'text' ? block.text : '')).join('\n');
+}
+
+// The user's own words from the first message, without the files and image
+// instructions createApp adds around them
+function extractPrompt(messages: Anthropic.MessageParam[]): string {
+  const text = messages.length > 0 ? textOf(messages[0].content) : '';
+  const request = text.split("User's modification request: ").pop() ?? text;
+  return request.split(/\n\n(?:🚨|\[User provided file)/)[0].trim();
+}
+
+function titleFor(prompt: string): string {
+  const firstLine = prompt.split('\n')[0].trim();
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40).trim()}...` : firstLine || 'New App';
+}
+
+function lastToolCall(messages: Anthropic.MessageParam[]): { name: string; result: string } | undefined {
+  const last = messages[messages.length - 1];
+  const previous = messages[messages.length - 2];
+  if (!last || last.role !== 'user' || typeof last.content === 'string') return undefined;
+  if (!previous || previous.role !== 'assistant' || typeof previous.content === 'string') return undefined;
+
+  const call = previous.content.find(block => block.type === 'tool_use');
+  const result = last.content.find(block => block.type === 'tool_result');
+  if (!call || call.type !== 'tool_use' || !result || result.type !== 'tool_result') return undefined;
+
+  const content = typeof result.content === 'string'
+    ? result.content
+    : (result.content ?? []).map(block => (block.type === 'text' ? block.text : '')).join('\n');
+  return { name: call.name, result: result.is_error ? `Error: ${content}` : content };
+}
+
+export class MockProvider implements ModelProvider {
+  readonly name = 'mock';
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const content = request.tools && request.tools.length > 0
+      ? this.nextStep(request.messages)
+      : [this.text(this.suggestions())];
+    const toolUse = content.some(block => block.type === 'tool_use');
+
+    return {
+      model: MODEL,
+      content,
+      stop_reason: toolUse ? 'tool_use' : 'end_turn',
+      usage: {
+        input_tokens: estimateTokens({ system: request.system, messages: request.messages }),
+        output_tokens: estimateTokens(content)
+      }
+    };
+  }
+
+  private nextStep(messages: Anthropic.MessageParam[]): Anthropic.ContentBlock[] {
+    const prompt = extractPrompt(messages);
+    const step = messages.filter(m => m.role === 'assistant').length + 1;
+    const previous = lastToolCall(messages);
+
+    if (step === 1) {
+      return [this.toolUse(step, 'list_files', {})];
+    }
+    if (previous?.name === 'list_files') {
+      return previous.result.split('\n').some(line => line.startsWith('index.html ('))
+        ? [this.toolUse(step, 'read_file', { path: 'index.html' })]
+        : [this.toolUse(step, 'write_file', { path: 'index.html', content: renderPreviewApp(escapeHtml(titleFor(prompt)), escapeHtml(prompt)) })];
+    }
+    if (previous?.name === 'read_file' && !previous.result.startsWith('Error:')) {
+      const note = `<div class="makeable-mock-change" style="margin: 1rem; padding: 1rem; border-left: 3px solid #2563eb; background: #f3f4f6;">Requested change: ${escapeHtml(prompt)}</div>\n`;
+      return previous.result.includes('</body>')
+        ? [this.toolUse(step, 'edit_file', { path: 'index.html', old_string: '</body>', new_string: `${note}</body>` })]
+        : [this.toolUse(step, 'write_file', { path: 'index.html', content: `${previous.result}\n${note}` })];
+    }
+    // A repair request or an unexpected state ends the run, the mock cannot fix anything
+    return [this.text('The app is ready. This preview was made by the offline mock provider, configure an API key for real results.')];
+  }
+
+  private suggestions(): string {
+    return JSON.stringify({
+      message: `Ich habe deine App analysiert.
+
+## 💡 Allgemeine Verbesserungsvorschläge
+
+**Funktionalität:**
+- Füge interaktive Elemente hinzu
+- Implementiere Benutzer-Feedback
+- Erweitere die Kernfunktionen
+
+**Design & UX:**
+- Optimiere für mobile Geräte
+- Verbessere die Ladezeiten
+- Füge visuelle Indikatoren hinzu
+
+Welche dieser Ideen möchtest du umsetzen?`,
+      chips: [
+        'Interaktive Elemente hinzufügen',
+        'Mobile Optimierung',
+        'Performance verbessern',
+        'Benutzer-Feedback einbauen'
+      ]
+    });
+  }
+
+  // Ids count the turns, so replays of the same conversation match
+  private toolUse(step: number, name: string, input: Record<string, unknown>): Anthropic.ToolUseBlock {
+    return { type: 'tool_use', id: `toolu_mock_${step}`, name, input };
+  }
+
+  private text(text: string): Anthropic.TextBlock {
+    return { type: 'text', text, citations: null };
+  }
+}
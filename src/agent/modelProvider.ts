@@ -0,0 +1,55 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { ModelUsage } from '../usage/tokenUsage.js';
+import { MockProvider } from './mockProvider.js';
+import type { ProviderName } from './modelSettings.js';
+
+// The conversation format is Anthropic's Messages API, other providers map to and from it
+
+export interface ModelRequest {
+  model: string;
+  maxTokens: number;
+  system?: string;
+  tools?: Anthropic.Tool[];
+  messages: Anthropic.MessageParam[];
+}
+
+export interface ModelResponse {
+  model: string;
+  content: Anthropic.ContentBlock[];
+  stop_reason: Anthropic.StopReason | null;
+  usage: ModelUsage;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  createMessage(request: ModelRequest): Promise<ModelResponse>;
+}
+
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+  private readonly client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    return this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.tools ? { tools: request.tools } : {}),
+      messages: request.messages
+    });
+  }
+}
+
+export function createModelProvider(name: ProviderName, env: NodeJS.ProcessEnv = process.env): ModelProvider {
+  if (name === 'mock') {
+    return new MockProvider();
+  }
+  if (!env.ANTHROPIC_API_KEY) {
+    throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+  }
+  return new AnthropicProvider(env.ANTHROPIC_API_KEY);
+}
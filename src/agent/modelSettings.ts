@@ -0,0 +1,97 @@
+import type { Course } from '../courses/courseStorage.js';
+
+export const PROVIDER_NAMES = ['anthropic', 'mock'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export interface ModelSettings {
+  provider: ProviderName;
+  model: string;
+  maxTokens: number; // Output tokens per turn of the agent
+  maxTurns: number;
+  suggestionsMaxTokens: number;
+}
+
+// What a course may change, the provider stays the same for everyone
+export interface CourseModelSettings {
+  model?: string;
+  maxTokens?: number;
+  maxTurns?: number;
+}
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+const MAX_TOKENS_LIMIT = 64000;
+const MAX_TURNS_LIMIT = 30;
+
+// The placeholder from .env.example counts as no key
+export function hasAnthropicKey(env: NodeJS.ProcessEnv = process.env): boolean {
+  const apiKey = env.ANTHROPIC_API_KEY?.trim();
+  return !!apiKey && apiKey !== 'your_api_key_here' && apiKey.length >= 20;
+}
+
+function readLimit(value: string | undefined, name: string, fallback: number, max: number): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw new Error(`${name} must be a whole number between 1 and ${max}`);
+  }
+  return parsed;
+}
+
+// AI_PROVIDER defaults to the mock provider while no API key is configured
+export function getModelSettings(env: NodeJS.ProcessEnv = process.env): ModelSettings {
+  const provider = env.AI_PROVIDER || (hasAnthropicKey(env) ? 'anthropic' : 'mock');
+  if (!PROVIDER_NAMES.includes(provider as ProviderName)) {
+    throw new Error(`AI_PROVIDER must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  if (provider === 'anthropic' && !hasAnthropicKey(env)) {
+    throw new Error('AI_PROVIDER=anthropic needs ANTHROPIC_API_KEY');
+  }
+
+  return {
+    provider: provider as ProviderName,
+    model: env.AI_MODEL || DEFAULT_MODEL,
+    maxTokens: readLimit(env.AI_MAX_TOKENS, 'AI_MAX_TOKENS', 16000, MAX_TOKENS_LIMIT),
+    maxTurns: readLimit(env.AI_MAX_TURNS, 'AI_MAX_TURNS', 10, MAX_TURNS_LIMIT),
+    suggestionsMaxTokens: readLimit(env.AI_SUGGESTIONS_MAX_TOKENS, 'AI_SUGGESTIONS_MAX_TOKENS', 2000, MAX_TOKENS_LIMIT)
+  };
+}
+
+// The settings for a run of a course's student, without a course the defaults apply
+export function resolveModelSettings(defaults: ModelSettings, course?: Course): ModelSettings {
+  const overrides = course?.modelSettings;
+  if (!overrides) return defaults;
+  return {
+    ...defaults,
+    ...(overrides.model ? { model: overrides.model } : {}),
+    ...(overrides.maxTokens ? { maxTokens: overrides.maxTokens } : {}),
+    ...(overrides.maxTurns ? { maxTurns: overrides.maxTurns } : {})
+  };
+}
+
+// Validates the overrides of a course, null or an empty object removes them
+export function normalizeCourseModelSettings(value: unknown): CourseModelSettings | undefined {
+  if (value === null) return undefined;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('modelSettings must be an object with model, maxTokens and maxTurns');
+  }
+
+  const input = value as Record<string, unknown>;
+  const settings: CourseModelSettings = {};
+
+  if (input.model !== undefined && input.model !== null && input.model !== '') {
+    if (typeof input.model !== 'string' || !/^[\w.:-]{1,100}$/.test(input.model.trim())) {
+      throw new Error('modelSettings.model must be a model name like claude-sonnet-4-20250514');
+    }
+    settings.model = input.model.trim();
+  }
+  for (const [field, max] of [['maxTokens', MAX_TOKENS_LIMIT], ['maxTurns', MAX_TURNS_LIMIT]] as const) {
+    const limit = input[field];
+    if (limit === undefined || limit === null || limit === '') continue;
+    if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > max) {
+      throw new Error(`modelSettings.${field} must be a whole number between 1 and ${max}`);
+    }
+    settings[field] = limit as number;
+  }
+
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
@@ -0,0 +1,312 @@
+import path from 'path';
+import * as acorn from 'acorn';
+import { getCandidatePaths, normalizeFilePath } from '../preview/previewFiles.js';
+
+export interface ValidationIssue {
+  file: string;
+  line?: number;
+  check: 'html' | 'reference' | 'javascript' | 'json';
+  message: string;
+}
+
+export interface ValidationReport {
+  ok: boolean;
+  checkedFiles: number;
+  issues: ValidationIssue[];
+}
+
+// Elements that never have a closing tag
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+// Elements whose closing tag HTML allows to be omitted
+const OPTIONAL_CLOSE_ELEMENTS = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot',
+  'option', 'optgroup', 'colgroup', 'caption', 'rt', 'rp'
+]);
+
+// Elements whose content is raw text and must not be parsed as markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+const JS_SCRIPT_TYPES = new Set(['', 'text/javascript', 'application/javascript', 'module']);
+
+// Returns a lookup from string index to 1-based line number
+function lineLookup(content: string): (index: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+  return index => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+interface InlineScript {
+  code: string;
+  line: number;
+  isModule: boolean;
+}
+
+interface HtmlScan {
+  issues: ValidationIssue[];
+  references: Array<{ url: string; line: number }>;
+  scripts: InlineScript[];
+  styles: Array<{ code: string; line: number }>;
+}
+
+// Small tag-balance scanner, enough to catch truncated or mismatched markup
+function scanHtml(file: string, content: string): HtmlScan {
+  const scan: HtmlScan = { issues: [], references: [], scripts: [], styles: [] };
+  const lineAt = lineLookup(content);
+  const stack: Array<{ tag: string; line: number }> = [];
+  const tagPattern = /<!--|<!\[CDATA\[|<!|<\/?([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(content)) !== null) {
+    const token = match[0];
+
+    if (token === '<!--') {
+      const end = content.indexOf('-->', match.index + 4);
+      if (end === -1) {
+        scan.issues.push({ file, line: lineAt(match.index), check: 'html', message: 'Unterminated HTML comment' });
+        break;
+      }
+      tagPattern.lastIndex = end + 3;
+      continue;
+    }
+    if (token === '<![CDATA[' || token === '<!') {
+      // Doctype or CDATA, skip to the end of the declaration
+      const end = content.indexOf('>', match.index);
+      tagPattern.lastIndex = end === -1 ? content.length : end + 1;
+      continue;
+    }
+
+    const tag = match[1].toLowerCase();
+    const attributes = match[2] || '';
+    const selfClosing = match[3] === '/';
+    const line = lineAt(match.index);
+
+    if (token.startsWith('</')) {
+      if (VOID_ELEMENTS.has(tag)) continue;
+
+      const openIndex = stack.map(s => s.tag).lastIndexOf(tag);
+      if (openIndex === -1) {
+        scan.issues.push({ file, line, check: 'html', message: `Closing tag </${tag}> has no matching opening tag` });
+        continue;
+      }
+      // Everything opened after the matching tag is implicitly closed here
+      for (const unclosed of stack.splice(openIndex).slice(1)) {
+        if (!OPTIONAL_CLOSE_ELEMENTS.has(unclosed.tag)) {
+          scan.issues.push({
+            file,
+            line: unclosed.line,
+            check: 'html',
+            message: `<${unclosed.tag}> is not closed before </${tag}> on line ${line}`
+          });
+        }
+      }
+      continue;
+    }
+
+    for (const attribute of ['src', 'href']) {
+      const value = getAttribute(attributes, attribute);
+      if (value !== undefined) {
+        scan.references.push({ url: value, line });
+      }
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(tag) && !selfClosing) {
+      const closePattern = new RegExp(`</${tag}\\s*>`, 'ig');
+      closePattern.lastIndex = tagPattern.lastIndex;
+      const close = closePattern.exec(content);
+      if (!close) {
+        scan.issues.push({ file, line, check: 'html', message: `<${tag}> is never closed` });
+        break;
+      }
+
+      const body = content.slice(tagPattern.lastIndex, close.index);
+      const bodyLine = lineAt(tagPattern.lastIndex);
+      if (tag === 'script' && getAttribute(attributes, 'src') === undefined) {
+        const type = (getAttribute(attributes, 'type') || '').toLowerCase();
+        if (JS_SCRIPT_TYPES.has(type)) {
+          scan.scripts.push({ code: body, line: bodyLine, isModule: type === 'module' });
+        }
+      } else if (tag === 'style') {
+        scan.styles.push({ code: body, line: bodyLine });
+      }
+      tagPattern.lastIndex = close.index + close[0].length;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !selfClosing) {
+      stack.push({ tag, line });
+    }
+  }
+
+  for (const unclosed of stack) {
+    if (!OPTIONAL_CLOSE_ELEMENTS.has(unclosed.tag)) {
+      scan.issues.push({ file, line: unclosed.line, check: 'html', message: `<${unclosed.tag}> is never closed` });
+    }
+  }
+
+  return scan;
+}
+
+function cssReferences(css: string, startLine: number): Array<{ url: string; line: number }> {
+  const references: Array<{ url: string; line: number }> = [];
+  const lineAt = lineLookup(css);
+  const pattern = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)\s]*))\s*\)|@import\s+(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(css)) !== null) {
+    const url = match[1] ?? match[2] ?? match[3] ?? match[4] ?? match[5];
+    if (url) {
+      references.push({ url, line: startLine + lineAt(match.index) - 1 });
+    }
+  }
+  return references;
+}
+
+// Only relative URLs can point at project files
+function isLocalReference(url: string): boolean {
+  const trimmed = url.trim();
+  return trimmed !== ''
+    && !trimmed.startsWith('#')
+    && !trimmed.startsWith('//')
+    && !/^[a-zA-Z][a-zA-Z\d+.-]*:/.test(trimmed) // http:, data:, mailto:, javascript:, ...
+    && !/[{}$`]/.test(trimmed); // Template expressions are resolved at runtime
+}
+
+function checkReference(
+  file: string,
+  url: string,
+  line: number,
+  files: Map<string, string>,
+  issues: ValidationIssue[]
+) {
+  if (!isLocalReference(url)) return;
+
+  let target = url.trim().split(/[?#]/)[0];
+  try {
+    target = decodeURI(target);
+  } catch {
+    // Keep the raw value if it is not valid percent-encoding
+  }
+  if (!target) return;
+
+  // The app is served below /preview/<id>/, /shared/... or /gallery/<slug>/, so these load from the Makeable site instead
+  if (target.startsWith('/')) {
+    const relative = target.replace(/^\/+/, '') || './';
+    issues.push({ file, line, check: 'reference', message: `"${url}" starts at the site root, where the app does not live. Use a relative path like "${relative}"` });
+    return;
+  }
+
+  const resolved = normalizeFilePath(path.posix.join(path.posix.dirname(file), target));
+  if (resolved === null) {
+    issues.push({ file, line, check: 'reference', message: `"${url}" points outside of the app` });
+    return;
+  }
+
+  // Resolved like the preview serves it, but without its fallback to index.html for unknown pages
+  const candidates = getCandidatePaths(resolved, target.endsWith('/'));
+  if (!candidates.some(candidate => files.has(candidate))) {
+    issues.push({ file, line, check: 'reference', message: `"${url}" refers to ${candidates[0]}, which does not exist` });
+  }
+}
+
+function checkJavaScript(file: string, code: string, startLine: number, preferModule: boolean, issues: ValidationIssue[]) {
+  const parse = (sourceType: 'script' | 'module') => acorn.parse(code, {
+    ecmaVersion: 'latest',
+    sourceType,
+    allowHashBang: true,
+    allowAwaitOutsideFunction: true
+  });
+
+  type AcornError = SyntaxError & { pos?: number; loc?: { line: number } };
+
+  let syntaxError: AcornError;
+  try {
+    parse(preferModule ? 'module' : 'script');
+    return;
+  } catch (error) {
+    syntaxError = error as AcornError;
+  }
+
+  // Classic scripts may still use import/export when loaded as modules elsewhere
+  if (!preferModule) {
+    try {
+      parse('module');
+      return;
+    } catch (error) {
+      // The error further into the code is the real one
+      const moduleError = error as AcornError;
+      if ((moduleError.pos ?? 0) > (syntaxError.pos ?? 0)) {
+        syntaxError = moduleError;
+      }
+    }
+  }
+
+  issues.push({
+    file,
+    line: syntaxError.loc ? startLine + syntaxError.loc.line - 1 : startLine,
+    check: 'javascript',
+    message: `JavaScript syntax error: ${syntaxError.message.replace(/\s*\(\d+:\d+\)$/, '')}`
+  });
+}
+
+export function validateFiles(files: Map<string, string>): ValidationReport {
+  const issues: ValidationIssue[] = [];
+
+  for (const [file, content] of files) {
+    const ext = path.posix.extname(file).toLowerCase();
+
+    if (ext === '.html' || ext === '.htm') {
+      const scan = scanHtml(file, content);
+      issues.push(...scan.issues);
+      for (const reference of scan.references) {
+        checkReference(file, reference.url, reference.line, files, issues);
+      }
+      for (const style of scan.styles) {
+        for (const reference of cssReferences(style.code, style.line)) {
+          checkReference(file, reference.url, reference.line, files, issues);
+        }
+      }
+      for (const script of scan.scripts) {
+        checkJavaScript(file, script.code, script.line, script.isModule, issues);
+      }
+    } else if (ext === '.js' || ext === '.mjs') {
+      checkJavaScript(file, content, 1, ext === '.mjs', issues);
+    } else if (ext === '.css') {
+      for (const reference of cssReferences(content, 1)) {
+        checkReference(file, reference.url, reference.line, files, issues);
+      }
+    } else if (ext === '.json') {
+      try {
+        JSON.parse(content);
+      } catch (error) {
+        issues.push({ file, check: 'json', message: `Invalid JSON: ${(error as Error).message}` });
+      }
+    }
+  }
+
+  return { ok: issues.length === 0, checkedFiles: files.size, issues };
+}
+
+// Plain-text version of the report for the model
+export function formatValidationReport(report: ValidationReport): string {
+  return report.issues
+    .map(issue => `- ${issue.file}${issue.line ? `:${issue.line}` : ''} [${issue.check}] ${issue.message}`)
+    .join('\n');
+}
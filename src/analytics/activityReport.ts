@@ -0,0 +1,202 @@
+import type { User } from '../auth/userStorage.js';
+import type { Course } from '../courses/courseStorage.js';
+import { toCsv } from '../http/csv.js';
+import type { ActivityCounts, ActivityReport, CourseActivity, DailyActivity, GenerationRun, StudentActivity } from './types.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const MOST_ACTIVE_LIMIT = 10;
+
+// Days follow the server's local calendar, like the token quotas
+export function toDayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDay(value: string): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDayKey(date) === value ? date : undefined;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Inclusive range from ?from= and ?to= (YYYY-MM-DD), the last 30 days by default.
+// `end` is the start of the day after `to`.
+export function parseDateRange(
+  query: { from?: unknown; to?: unknown },
+  now: Date = new Date()
+): { from: string; to: string; start: Date; end: Date } {
+  const to = typeof query.to === 'string' && query.to ? parseDay(query.to) : addDays(now, 0);
+  if (!to) {
+    throw new Error(`Invalid date "${query.to}", expected YYYY-MM-DD`);
+  }
+  const from = typeof query.from === 'string' && query.from ? parseDay(query.from) : addDays(to, 1 - DEFAULT_RANGE_DAYS);
+  if (!from) {
+    throw new Error(`Invalid date "${query.from}", expected YYYY-MM-DD`);
+  }
+  if (from > to) {
+    throw new Error('The range cannot end before it starts');
+  }
+  if (addDays(from, MAX_RANGE_DAYS) <= to) {
+    throw new Error(`The range can span at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from: toDayKey(from), to: toDayKey(to), start: from, end: addDays(to, 1) };
+}
+
+interface Tally {
+  registrations: number;
+  generations: number;
+  iterations: number;
+  failures: number;
+  completed: number;
+  totalDurationMs: number;
+}
+
+function emptyTally(): Tally {
+  return { registrations: 0, generations: 0, iterations: 0, failures: 0, completed: 0, totalDurationMs: 0 };
+}
+
+function countRun(tally: Tally, run: GenerationRun) {
+  if (run.mode === 'generate') tally.generations++;
+  else tally.iterations++;
+
+  if (run.status === 'failed') {
+    tally.failures++;
+  } else if (run.durationMs !== undefined) {
+    tally.completed++;
+    tally.totalDurationMs += run.durationMs;
+  }
+}
+
+function toCounts(tally: Tally): ActivityCounts {
+  return {
+    registrations: tally.registrations,
+    generations: tally.generations,
+    iterations: tally.iterations,
+    failures: tally.failures,
+    avgDurationMs: tally.completed > 0 ? Math.round(tally.totalDurationMs / tally.completed) : null
+  };
+}
+
+// Totals and one tally per day of the range
+class DailyTallies {
+  readonly total = emptyTally();
+  private readonly days = new Map<string, Tally>();
+
+  constructor(private readonly dayKeys: string[]) {
+    for (const day of dayKeys) this.days.set(day, emptyTally());
+  }
+
+  registration(day: string) {
+    this.total.registrations++;
+    this.days.get(day)!.registrations++;
+  }
+
+  run(day: string, run: GenerationRun) {
+    countRun(this.total, run);
+    countRun(this.days.get(day)!, run);
+  }
+
+  toDays(): DailyActivity[] {
+    return this.dayKeys.map(date => ({ date, ...toCounts(this.days.get(date)!) }));
+  }
+}
+
+// `users` and `runs` are what the viewer may see, runs may reach back before
+// the range so inactive students still show when they were last active.
+export function buildActivityReport(input: {
+  from: string;
+  to: string;
+  users: User[];
+  courses: Course[];
+  runs: GenerationRun[];
+}): ActivityReport {
+  const dayKeys: string[] = [];
+  for (let day = parseDay(input.from)!; toDayKey(day) <= input.to; day = addDays(day, 1)) {
+    dayKeys.push(toDayKey(day));
+  }
+  const inRange = (day: string) => day >= input.from && day <= input.to;
+
+  const overall = new DailyTallies(dayKeys);
+  const perCourse = new Map<string | null, DailyTallies>();
+  const forCourse = (courseId: string | undefined) => {
+    const key = courseId ?? null;
+    if (!perCourse.has(key)) perCourse.set(key, new DailyTallies(dayKeys));
+    return perCourse.get(key)!;
+  };
+  // Courses without any activity are listed as well
+  for (const course of input.courses) forCourse(course.id);
+
+  for (const user of input.users) {
+    const day = toDayKey(new Date(user.createdAt));
+    if (!inRange(day)) continue;
+    overall.registration(day);
+    forCourse(user.courseId).registration(day);
+  }
+
+  const runsPerUser = new Map<string, number>();
+  const lastActive = new Map<string, string>();
+  for (const run of input.runs) {
+    const day = toDayKey(new Date(run.finishedAt));
+    if (day <= input.to && (lastActive.get(run.userId) ?? '') < run.finishedAt) {
+      lastActive.set(run.userId, run.finishedAt);
+    }
+    if (!inRange(day)) continue;
+    overall.run(day, run);
+    forCourse(run.courseId).run(day, run);
+    runsPerUser.set(run.userId, (runsPerUser.get(run.userId) || 0) + 1);
+  }
+
+  const courseNames = new Map(input.courses.map(c => [c.id, c.name]));
+  const courses: CourseActivity[] = Array.from(perCourse.entries()).map(([courseId, tallies]) => ({
+    courseId,
+    courseName: courseId === null ? 'No course' : courseNames.get(courseId) || 'Unknown course',
+    totals: toCounts(tallies.total),
+    days: tallies.toDays()
+  }));
+
+  const students: StudentActivity[] = input.users
+    .filter(u => u.role === 'student')
+    .map(u => ({
+      userId: u.id,
+      name: u.name,
+      email: u.email,
+      ...(u.courseId ? { courseName: courseNames.get(u.courseId) || 'Unknown course' } : {}),
+      runs: runsPerUser.get(u.id) || 0,
+      ...(lastActive.has(u.id) ? { lastActiveAt: lastActive.get(u.id) } : {})
+    }));
+
+  return {
+    from: input.from,
+    to: input.to,
+    totals: toCounts(overall.total),
+    days: overall.toDays(),
+    courses,
+    mostActive: students.filter(s => s.runs > 0).sort((a, b) => b.runs - a.runs).slice(0, MOST_ACTIVE_LIMIT),
+    inactive: students.filter(s => s.runs === 0).sort((a, b) => (a.lastActiveAt ?? '').localeCompare(b.lastActiveAt ?? ''))
+  };
+}
+
+// One line per day for all courses together, then per course
+export function activityReportToCsv(report: ActivityReport): string {
+  const header = ['Date', 'Course', 'Registrations', 'Generations', 'Iterations', 'Failures', 'Avg duration (s)'];
+  const line = (day: DailyActivity, courseName: string) => [
+    day.date,
+    courseName,
+    day.registrations,
+    day.generations,
+    day.iterations,
+    day.failures,
+    day.avgDurationMs === null ? '' : Math.round(day.avgDurationMs / 1000)
+  ];
+
+  return toCsv([
+    header,
+    ...report.days.map(day => line(day, 'All courses')),
+    ...report.courses.flatMap(course => course.days.map(day => line(day, course.courseName)))
+  ]);
+}
@@ -0,0 +1,39 @@
+import { randomUUID } from 'crypto';
+import type { User } from '../auth/userStorage.js';
+import type { RunRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+import type { GenerationRun, RunMode } from './types.js';
+
+export class RunLog {
+  constructor(private readonly repository: RunRepository) {}
+
+  record(
+    user: User | undefined,
+    run: { projectId: string; userId: string; mode: RunMode; startedAt?: Date; error?: string }
+  ): GenerationRun {
+    const finishedAt = new Date();
+    const record: GenerationRun = {
+      id: randomUUID(),
+      projectId: run.projectId,
+      userId: run.userId,
+      ...(user?.courseId ? { courseId: user.courseId } : {}),
+      mode: run.mode,
+      status: run.error === undefined ? 'completed' : 'failed',
+      ...(run.error !== undefined ? { error: run.error } : {}),
+      ...(run.startedAt ? { startedAt: run.startedAt.toISOString(), durationMs: finishedAt.getTime() - run.startedAt.getTime() } : {}),
+      finishedAt: finishedAt.toISOString()
+    };
+    this.repository.add(record);
+    return record;
+  }
+
+  getRunsBetween(from: Date, to: Date): GenerationRun[] {
+    return this.repository.findBetween(from.toISOString(), to.toISOString());
+  }
+
+  getAllRuns(): GenerationRun[] {
+    return this.repository.findAll();
+  }
+}
+
+export const runLog = new RunLog(repositories.runs);
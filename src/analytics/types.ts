@@ -0,0 +1,53 @@
+export type RunMode = 'generate' | 'iterate';
+
+// One finished generate/iterate run, written when it completes or fails
+export interface GenerationRun {
+  id: string;
+  projectId: string;
+  userId: string;
+  courseId?: string; // Course of the user at the time of the run
+  mode: RunMode;
+  status: 'completed' | 'failed';
+  error?: string;
+  startedAt?: string; // Missing when the run failed while still queued
+  finishedAt: string;
+  durationMs?: number;
+}
+
+export interface ActivityCounts {
+  registrations: number;
+  generations: number;
+  iterations: number;
+  failures: number;
+  avgDurationMs: number | null; // Of completed runs, null without any
+}
+
+export interface DailyActivity extends ActivityCounts {
+  date: string; // YYYY-MM-DD, server local time
+}
+
+export interface CourseActivity {
+  courseId: string | null; // null for users without a course
+  courseName: string;
+  totals: ActivityCounts;
+  days: DailyActivity[];
+}
+
+export interface StudentActivity {
+  userId: string;
+  name: string;
+  email: string;
+  courseName?: string;
+  runs: number;
+  lastActiveAt?: string; // Latest run, also before the range
+}
+
+export interface ActivityReport {
+  from: string;
+  to: string;
+  totals: ActivityCounts;
+  days: DailyActivity[];
+  courses: CourseActivity[];
+  mostActive: StudentActivity[];
+  inactive: StudentActivity[]; // Students without a run in the range
+}
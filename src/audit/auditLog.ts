@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import type { AuditRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+import type { AuditAction, AuditEntry, AuditQuery, AuditTargetType } from './types.js';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export interface AuditInput {
+  actorId?: string;
+  actorEmail?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+}
+
+export class AuditLog {
+  constructor(private readonly repository: AuditRepository) {}
+
+  record(action: AuditAction, input: AuditInput): AuditEntry {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      action,
+      ...(input.actorId ? { actorId: input.actorId } : {}),
+      ...(input.actorEmail ? { actorEmail: input.actorEmail } : {}),
+      ...(input.targetType ? { targetType: input.targetType } : {}),
+      ...(input.targetId ? { targetId: input.targetId } : {}),
+      ...(input.details ? { details: input.details } : {}),
+      ...(input.ip ? { ip: input.ip } : {}),
+      createdAt: new Date().toISOString()
+    };
+    this.repository.add(entry);
+    return entry;
+  }
+
+  query(query: AuditQuery): AuditEntry[] {
+    return this.repository.find(query);
+  }
+
+  // Everything the user did, oldest first, for their data export
+  getEntriesByActor(actorId: string): AuditEntry[] {
+    return this.repository.findAll().filter(e => e.actorId === actorId);
+  }
+}
+
+function parseTime(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  const time = typeof value === 'string' ? new Date(value) : undefined;
+  if (!time || Number.isNaN(time.getTime())) {
+    throw new Error(`${name} must be a date or ISO timestamp`);
+  }
+  return time.toISOString();
+}
+
+// Filters from the query string, throws on values that cannot be read
+export function parseAuditQuery(query: Record<string, unknown>): AuditQuery {
+  const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+  const limit = query.limit === undefined ? DEFAULT_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new Error(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  return {
+    action: text(query.action),
+    actorId: text(query.actorId),
+    targetId: text(query.targetId),
+    from: parseTime(query.from, 'from'),
+    to: parseTime(query.to, 'to'),
+    limit
+  };
+}
+
+export const auditLog = new AuditLog(repositories.audit);
@@ -0,0 +1,49 @@
+export type AuditAction =
+  | 'auth.setup_admin'
+  | 'auth.register'
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'auth.logout'
+  | 'auth.logout_all'
+  | 'auth.session_revoked'
+  | 'auth.password_changed'
+  | 'auth.password_reset'
+  | 'auth.email_verified'
+  | 'user.profile_updated'
+  | 'user.role_changed'
+  | 'user.course_changed'
+  | 'user.sessions_revoked'
+  | 'user.imported'
+  | 'user.password_reset' // Set by an admin, not through a mail link
+  | 'user.exported'
+  | 'user.deleted'
+  | 'project.created'
+  | 'project.iterated'
+  | 'project.renamed'
+  | 'project.restored'
+  | 'project.deleted'
+  | 'project.viewed'; // A teacher or admin opened a student's project
+
+export type AuditTargetType = 'user' | 'project';
+
+// One action of one user, entries are never changed or removed
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  actorId?: string; // Missing e.g. for failed logins with an unknown address
+  actorEmail?: string; // Keeps the entry readable after the account is gone
+  targetType?: AuditTargetType;
+  targetId?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+  createdAt: string;
+}
+
+export interface AuditQuery {
+  action?: string; // An action like "auth.login" or a whole group like "auth"
+  actorId?: string;
+  targetId?: string;
+  from?: string; // ISO timestamps, `to` is exclusive
+  to?: string;
+  limit: number;
+}
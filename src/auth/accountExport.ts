@@ -0,0 +1,105 @@
+import archiver from 'archiver';
+import type { Writable } from 'stream';
+import type { GenerationRun } from '../analytics/types.js';
+import { runLog } from '../analytics/runLog.js';
+import { auditLog } from '../audit/auditLog.js';
+import type { AuditEntry } from '../audit/types.js';
+import { courseStorage } from '../courses/courseStorage.js';
+import { normalizeFilePath } from '../preview/previewFiles.js';
+import { MANIFEST_FILE, type ProjectManifest } from '../projects/projectArchive.js';
+import type { Project } from '../projects/types.js';
+import { repositories } from '../storage/index.js';
+import type { UsageRecord } from '../usage/types.js';
+import { usageTracker } from '../usage/usageTracker.js';
+import type { User } from './userStorage.js';
+
+// Everything stored about one user, handed out as a ZIP on request:
+//   profile.json       account data without password hash and tokens
+//   projects.json      all own projects with prompt history, feedback and grade
+//   projects/<name>/   the files of every project, importable again as a ZIP
+//   usage.json         token usage records
+//   runs.json          generate and iterate runs
+//   audit-log.json     actions of the user in the audit log
+
+export interface AccountData {
+  user: User;
+  projects: Project[];
+  usage: UsageRecord[];
+  runs: GenerationRun[];
+  auditEntries: AuditEntry[];
+}
+
+export function collectAccountData(user: User): AccountData {
+  return {
+    user,
+    projects: repositories.projects.findByUserId(user.id),
+    usage: usageTracker.getUsageSince(new Date(0), { userId: user.id }),
+    runs: runLog.getAllRuns().filter(r => r.userId === user.id),
+    auditEntries: auditLog.getEntriesByActor(user.id)
+  };
+}
+
+function folderName(project: Project, taken: Set<string>): string {
+  const base = project.name
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase() || project.id;
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base}-${i}`;
+  taken.add(name);
+  return name;
+}
+
+export function writeAccountArchive(data: AccountData, output: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    archive.on('error', reject);
+    archive.on('warning', warning => console.warn('Archive warning:', warning));
+    output.on('close', () => resolve());
+    output.on('error', reject);
+
+    archive.pipe(output);
+
+    const json = (value: unknown) => JSON.stringify(value, null, 2);
+    const exportedAt = new Date().toISOString();
+    const { passwordHash, accountTokens, ...profile } = data.user;
+    const course = profile.courseId ? courseStorage.findById(profile.courseId) : undefined;
+    archive.append(json({ ...profile, course: course && { id: course.id, name: course.name }, exportedAt }), { name: 'profile.json' });
+
+    const taken = new Set<string>();
+    const projects = data.projects.map(project => {
+      const folder = folderName(project, taken);
+      for (const file of project.files) {
+        const filePath = normalizeFilePath(file.path);
+        if (filePath) {
+          archive.append(file.content, { name: `projects/${folder}/${filePath}` });
+        }
+      }
+      const manifest: ProjectManifest = {
+        format: 1,
+        name: project.name,
+        prompt: project.prompt,
+        promptHistory: project.promptHistory || [],
+        createdAt: project.createdAt,
+        exportedAt
+      };
+      if (!project.files.some(f => normalizeFilePath(f.path) === MANIFEST_FILE)) {
+        archive.append(json(manifest), { name: `projects/${folder}/${MANIFEST_FILE}` });
+      }
+
+      // Share link tokens are secrets of the live project, not personal data
+      const { files, shareLinks, ...details } = project;
+      return { ...details, folder: `projects/${folder}` };
+    });
+    archive.append(json(projects), { name: 'projects.json' });
+
+    archive.append(json(data.usage), { name: 'usage.json' });
+    archive.append(json(data.runs), { name: 'runs.json' });
+    archive.append(json(data.auditEntries), { name: 'audit-log.json' });
+
+    archive.finalize().catch(reject);
+  });
+}
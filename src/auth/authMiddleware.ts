@@ -1,28 +1,63 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { sessionStorage } from './sessionStorage.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'makeable-secret-key-change-in-production';
 
+// Access tokens are short-lived, clients get new ones from /api/auth/refresh
+export const ACCESS_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+
 export interface AuthRequest extends Request {
   userId?: string;
+  sessionId?: string;
+}
+
+interface AccessTokenPayload {
+  userId: string;
+  sessionId?: string;
+}
+
+function getAccessToken(req: Request): string | undefined {
+  return req.cookies?.token || req.headers.authorization?.replace('Bearer ', '');
+}
+
+// Reads the token without checking its session, so logout also works for ended sessions
+export function readAccessToken(req: Request): AccessTokenPayload | undefined {
+  const token = getAccessToken(req);
+  if (!token) return undefined;
+
+  try {
+    return jwt.verify(token, JWT_SECRET, { ignoreExpiration: true }) as AccessTokenPayload;
+  } catch {
+    return undefined;
+  }
 }
 
 export function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
-  const token = req.cookies?.token || req.headers.authorization?.replace('Bearer ', '');
+  const token = getAccessToken(req);
 
   if (!token) {
     return res.status(401).json({ error: 'Not authenticated' });
   }
 
+  let decoded: AccessTokenPayload;
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    req.userId = decoded.userId;
-    next();
+    decoded = jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
   } catch (error) {
     return res.status(401).json({ error: 'Invalid token' });
   }
+
+  // Tokens from before sessions existed carry no session and are no longer accepted
+  const session = decoded.sessionId ? sessionStorage.findActive(decoded.sessionId) : undefined;
+  if (!session || session.userId !== decoded.userId) {
+    return res.status(401).json({ error: 'Session expired' });
+  }
+
+  req.userId = decoded.userId;
+  req.sessionId = session.id;
+  next();
 }
 
-export function generateToken(userId: string): string {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '30d' });
+export function generateToken(userId: string, sessionId: string): string {
+  return jwt.sign({ userId, sessionId }, JWT_SECRET, { expiresIn: Math.floor(ACCESS_TOKEN_LIFETIME_MS / 1000) });
 }
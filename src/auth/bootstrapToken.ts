@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createSecretToken, hashToken, matchesHash } from './secretTokens.js';
+
+// The token itself is only shown once, the file keeps a hash of it
+interface StoredBootstrapToken {
+  hash: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const TOKEN_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+// One-time token that allows creating an admin account through /setup.html.
+// Created on the first startup without any admin, or by `npm run create-admin -- --token`.
+export class BootstrapTokens {
+  constructor(private readonly file: string) {}
+
+  // Returns the plain token, replacing any token that was issued before
+  issue(): { token: string; expiresAt: string } {
+    const token = createSecretToken();
+    const now = Date.now();
+    const stored: StoredBootstrapToken = {
+      hash: hashToken(token),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + TOKEN_LIFETIME_MS).toISOString()
+    };
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    // Readable by the server user only
+    fs.writeFileSync(this.file, JSON.stringify(stored, null, 2), { mode: 0o600 });
+    return { token, expiresAt: stored.expiresAt };
+  }
+
+  hasValidToken(): boolean {
+    const stored = this.read();
+    return stored !== undefined && Date.parse(stored.expiresAt) > Date.now();
+  }
+
+  // Checks the token and deletes it on success, so it cannot be used twice
+  consume(token: string): boolean {
+    const stored = this.read();
+    if (!stored || Date.parse(stored.expiresAt) <= Date.now()) {
+      return false;
+    }
+
+    if (!matchesHash(token, stored.hash)) {
+      return false;
+    }
+
+    fs.rmSync(this.file, { force: true });
+    return true;
+  }
+
+  private read(): StoredBootstrapToken | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.file, 'utf-8')) as StoredBootstrapToken;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const bootstrapTokens = new BootstrapTokens(
+  process.env.BOOTSTRAP_TOKEN_FILE || path.join(process.cwd(), 'data', 'bootstrap-token.json')
+);
@@ -0,0 +1,76 @@
+import type { NextFunction, Response } from 'express';
+import type { AuthRequest } from './authMiddleware.js';
+import { userStorage, type User, type UserRole } from './userStorage.js';
+import { courseStorage, type Course } from '../courses/courseStorage.js';
+import type { Project } from '../projects/types.js';
+
+// Who may see what:
+// - admins: everything
+// - teachers: the courses they are assigned to, with their students and projects
+// - students: only their own data, and projects they were added to as collaborators
+// Feedback and grades come from admins and the teachers of the student's course.
+
+// Must run after authMiddleware
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    const user = userStorage.findById(req.userId!);
+    if (!user || !roles.includes(user.role)) {
+      const error = roles.length === 1 && roles[0] === 'admin' ? 'Admin access required' : 'Access denied';
+      return res.status(403).json({ error });
+    }
+    next();
+  };
+}
+
+export function canManageCourse(user: User, course: Course): boolean {
+  return user.role === 'admin' || (user.role === 'teacher' && course.teacherIds.includes(user.id));
+}
+
+// Course ids a user may look into, undefined means all courses
+export function getVisibleCourseIds(user: User): Set<string> | undefined {
+  if (user.role === 'admin') return undefined;
+  if (user.role !== 'teacher') return new Set();
+  return new Set(courseStorage.getAllCourses().filter(c => canManageCourse(user, c)).map(c => c.id));
+}
+
+export function canAccessUser(viewer: User, target: User): boolean {
+  if (viewer.id === target.id || viewer.role === 'admin') return true;
+  return viewer.role === 'teacher'
+    && target.role === 'student'
+    && target.courseId !== undefined
+    && getVisibleCourseIds(viewer)!.has(target.courseId);
+}
+
+// 'owner' can do everything, 'editor' can change the files, 'viewer' can only look
+export type ProjectAccess = 'owner' | 'editor' | 'viewer';
+
+const ACCESS_LEVELS: ProjectAccess[] = ['viewer', 'editor', 'owner'];
+
+export function hasProjectAccess(access: ProjectAccess | undefined, required: ProjectAccess): boolean {
+  return access !== undefined && ACCESS_LEVELS.indexOf(access) >= ACCESS_LEVELS.indexOf(required);
+}
+
+// Admins and the teachers of the owner's course can look at every project of their students
+export function getProjectAccess(viewer: User | undefined, project: Pick<Project, 'userId' | 'collaborators'>): ProjectAccess | undefined {
+  if (!viewer) return undefined;
+  if (project.userId === viewer.id) return 'owner';
+
+  const collaborator = project.collaborators?.find(c => c.userId === viewer.id);
+  if (collaborator) return collaborator.role;
+
+  const owner = userStorage.findById(project.userId);
+  return viewer.role === 'admin' || (owner !== undefined && canAccessUser(viewer, owner)) ? 'viewer' : undefined;
+}
+
+export function canViewProject(viewer: User | undefined, project: Pick<Project, 'userId' | 'collaborators'>): boolean {
+  return getProjectAccess(viewer, project) !== undefined;
+}
+
+// Reviewers comment on and grade projects, never their own
+export function canReviewProject(viewer: User | undefined, project: Pick<Project, 'userId'>): boolean {
+  if (!viewer || viewer.id === project.userId) return false;
+  if (viewer.role === 'admin') return true;
+
+  const owner = userStorage.findById(project.userId);
+  return viewer.role === 'teacher' && owner !== undefined && canAccessUser(viewer, owner);
+}
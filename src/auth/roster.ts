@@ -0,0 +1,142 @@
+import { courseStorage, type Course } from '../courses/courseStorage.js';
+import { parseCsv, toCsv } from '../http/csv.js';
+import { generatePassword, parseRole } from './userManagement.js';
+import { userStorage, type User, type UserRole } from './userStorage.js';
+
+// Class lists as CSV with the columns email, name and optionally role, course
+// (id or name) and password. Exported rosters can be imported again.
+
+const MAX_NAME_LENGTH = 100;
+
+export interface RosterEntry {
+  line: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  courseId?: string;
+  password?: string;
+}
+
+export interface SkippedRosterLine {
+  line: number;
+  email: string;
+  reason: string;
+}
+
+export interface RosterImportResult {
+  created: {
+    id: string;
+    email: string;
+    name: string;
+    role: UserRole;
+    courseName?: string;
+    password?: string; // Only for generated passwords, shown once to hand them out
+  }[];
+  skipped: SkippedRosterLine[];
+}
+
+// Lines that cannot be imported are skipped with a reason, a file without
+// email and name columns is rejected as a whole
+export function parseRoster(csv: string, defaultCourse?: Course): { entries: RosterEntry[]; skipped: SkippedRosterLine[] } {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column('email') === -1 || column('name') === -1) {
+    throw new Error('The first line needs the columns "email" and "name"');
+  }
+
+  const entries: RosterEntry[] = [];
+  const skipped: SkippedRosterLine[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const value = (name: string) => (column(name) === -1 ? '' : row[column(name)] ?? '').trim();
+    const email = value('email').toLowerCase();
+    const skip = (reason: string) => skipped.push({ line, email, reason });
+
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) return skip('Invalid email address');
+    if (seen.has(email)) return skip('Email appears more than once in the file');
+    seen.add(email);
+    if (userStorage.findByEmail(email)) return skip('User with this email already exists');
+
+    const name = value('name').slice(0, MAX_NAME_LENGTH);
+    if (!name) return skip('Name is missing');
+
+    let role: UserRole = 'student';
+    if (value('role')) {
+      try {
+        role = parseRole(value('role'));
+      } catch (error) {
+        return skip(error instanceof Error ? error.message : 'Invalid role');
+      }
+    }
+
+    let course = defaultCourse;
+    if (value('course')) {
+      course = courseStorage.findById(value('course')) ?? courseStorage.findByName(value('course'));
+      if (!course) return skip(`Unknown course "${value('course')}"`);
+    }
+
+    entries.push({
+      line,
+      email,
+      name,
+      role,
+      // Like at registration, only students belong to a course
+      ...(role === 'student' && course ? { courseId: course.id } : {}),
+      ...(value('password') ? { password: value('password') } : {})
+    });
+  });
+
+  return { entries, skipped };
+}
+
+// Creates the accounts of the roster. The admin vouches for the addresses,
+// so they count as verified; missing passwords are generated.
+export async function importRoster(csv: string, options: { defaultCourse?: Course } = {}): Promise<RosterImportResult> {
+  const { entries, skipped } = parseRoster(csv, options.defaultCourse);
+  const courseNames = new Map(courseStorage.getAllCourses().map(c => [c.id, c.name]));
+  const result: RosterImportResult = { created: [], skipped };
+
+  for (const entry of entries) {
+    const password = entry.password ?? generatePassword();
+    try {
+      const user = await userStorage.createUser(entry.email, password, entry.name, entry.role, entry.courseId);
+      userStorage.markEmailVerified(user.id);
+      result.created.push({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        ...(user.courseId ? { courseName: courseNames.get(user.courseId) } : {}),
+        ...(entry.password ? {} : { password })
+      });
+    } catch (error) {
+      skipped.push({ line: entry.line, email: entry.email, reason: error instanceof Error ? error.message : 'Failed to create user' });
+    }
+  }
+
+  skipped.sort((a, b) => a.line - b.line);
+  return result;
+}
+
+export function exportRoster(users: User[], courses: Course[]): string {
+  const courseNames = new Map(courses.map(c => [c.id, c.name]));
+  return toCsv([
+    ['email', 'name', 'role', 'course', 'createdAt'],
+    ...users.map(u => [u.email, u.name, u.role, u.courseId ? courseNames.get(u.courseId) ?? u.courseId : '', u.createdAt])
+  ]);
+}
+
+// Generated passwords next to the accounts, to print and hand out
+export function importResultToCsv(result: RosterImportResult): string {
+  return toCsv([
+    ['email', 'name', 'role', 'course', 'password'],
+    ...result.created.map(u => [u.email, u.name, u.role, u.courseName, u.password])
+  ]);
+}
@@ -0,0 +1,17 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Helpers for one-time tokens that are handed out once and only stored as a hash
+
+export function createSecretToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function matchesHash(token: string, hash: string): boolean {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import type { SessionRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+import { createSecretToken, hashToken, matchesHash } from './secretTokens.js';
+
+// One login on one device. Access tokens name their session, so deleting the
+// session logs that device out on its next request.
+export interface Session {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string; // Still accepted for a moment after a refresh, see refresh()
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string; // Last refresh, access tokens are not tracked
+  expiresAt: string; // Moved forward on every refresh
+}
+
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+const REFRESH_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+// Tabs share the refresh cookie, two of them can refresh with the same token at once
+const REFRESH_GRACE_MS = 30 * 1000;
+
+export class SessionStorage {
+  constructor(private readonly repository: SessionRepository) {}
+
+  // Returns the new session with its refresh token, which is not stored in plain text
+  create(userId: string, client: SessionClient = {}): { session: Session; refreshToken: string } {
+    const now = new Date();
+    const secret = createSecretToken();
+    const session: Session = {
+      id: randomUUID(),
+      userId,
+      refreshTokenHash: hashToken(secret),
+      ...(client.userAgent ? { userAgent: client.userAgent.slice(0, 300) } : {}),
+      ...(client.ip ? { ip: client.ip } : {}),
+      createdAt: now.toISOString(),
+      lastUsedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + REFRESH_LIFETIME_MS).toISOString()
+    };
+    this.repository.save(session);
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  findActive(sessionId: string): Session | undefined {
+    const session = this.repository.findById(sessionId);
+    return session && Date.parse(session.expiresAt) > Date.now() ? session : undefined;
+  }
+
+  // Swaps the refresh token for a new one. Presenting an old token again means
+  // it was copied, so the whole session is ended. The token replaced by the last
+  // refresh still works for REFRESH_GRACE_MS, without a new refresh token: the
+  // cookie already holds the one the first refresh set.
+  refresh(refreshToken: string, client: SessionClient = {}): { session: Session; refreshToken?: string } | undefined {
+    const separator = refreshToken.indexOf('.');
+    if (separator <= 0) return undefined;
+
+    const session = this.findActive(refreshToken.slice(0, separator));
+    if (!session) return undefined;
+
+    const secret = refreshToken.slice(separator + 1);
+    if (!matchesHash(secret, session.refreshTokenHash)) {
+      const justReplaced = session.previousRefreshTokenHash !== undefined
+        && matchesHash(secret, session.previousRefreshTokenHash)
+        && Date.now() - Date.parse(session.lastUsedAt) <= REFRESH_GRACE_MS;
+      if (justReplaced) return { session };
+
+      this.repository.delete(session.id);
+      return undefined;
+    }
+
+    const now = new Date();
+    const nextSecret = createSecretToken();
+    session.previousRefreshTokenHash = session.refreshTokenHash;
+    session.refreshTokenHash = hashToken(nextSecret);
+    session.lastUsedAt = now.toISOString();
+    session.expiresAt = new Date(now.getTime() + REFRESH_LIFETIME_MS).toISOString();
+    if (client.ip) session.ip = client.ip;
+    this.repository.save(session);
+    return { session, refreshToken: `${session.id}.${nextSecret}` };
+  }
+
+  // Newest first
+  getActiveSessions(userId: string): Session[] {
+    const now = Date.now();
+    return this.repository.findByUserId(userId)
+      .filter(s => Date.parse(s.expiresAt) > now)
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  revoke(sessionId: string): boolean {
+    return this.repository.delete(sessionId);
+  }
+
+  // Logs the user out everywhere, optionally except on the current device
+  revokeAll(userId: string, exceptSessionId?: string): number {
+    let count = 0;
+    for (const session of this.repository.findByUserId(userId)) {
+      if (session.id !== exceptSessionId && this.repository.delete(session.id)) count++;
+    }
+    return count;
+  }
+
+  pruneExpired(): number {
+    return this.repository.deleteExpiredBefore(new Date().toISOString());
+  }
+}
+
+export const sessionStorage = new SessionStorage(repositories.sessions);
@@ -0,0 +1,83 @@
+import { randomInt } from 'crypto';
+import { courseStorage } from '../courses/courseStorage.js';
+import { galleryStorage } from '../gallery/galleryStorage.js';
+import type { RevisionStorage } from '../projects/revisionStorage.js';
+import { repositories } from '../storage/index.js';
+import { deleteUserUploads } from '../uploads/imageUploads.js';
+import { sessionStorage } from './sessionStorage.js';
+import { userStorage, USER_ROLES, type User, type UserRole } from './userStorage.js';
+
+// Account changes shared by the admin endpoints and the user-management CLI
+
+// No 0/O or 1/l/I, passwords are read off a sheet of paper
+const PASSWORD_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function generatePassword(length = 12): string {
+  return Array.from({ length }, () => PASSWORD_ALPHABET[randomInt(PASSWORD_ALPHABET.length)]).join('');
+}
+
+export function parseRole(value: unknown): UserRole {
+  const role = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!USER_ROLES.includes(role as UserRole)) {
+    throw new Error(`Role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+  return role as UserRole;
+}
+
+export function isLastAdmin(user: User): boolean {
+  return user.role === 'admin' && userStorage.getAllUsers().filter(u => u.role === 'admin').length === 1;
+}
+
+// Throws when the last admin would be demoted, nobody could open the dashboard anymore
+export async function changeRole(user: User, role: UserRole): Promise<User> {
+  if (role !== 'admin' && isLastAdmin(user)) {
+    throw new Error('The last admin cannot be demoted');
+  }
+
+  // Former teachers no longer teach their courses
+  if (user.role === 'teacher' && role !== 'teacher') {
+    removeFromCourses(user.id);
+  }
+
+  return (await userStorage.updateUser(user.id, { role }))!;
+}
+
+function removeFromCourses(userId: string) {
+  for (const course of courseStorage.getAllCourses().filter(c => c.teacherIds.includes(userId))) {
+    courseStorage.updateCourse(course.id, { teacherIds: course.teacherIds.filter(id => id !== userId) });
+  }
+}
+
+// Removes the user with their projects, revisions, publications, uploaded
+// images and sessions. Runs of the projects that are still queued have to be
+// cancelled by the caller. Usage records and the audit log are kept.
+export async function deleteUserWithProjects(user: User, revisionStorage: RevisionStorage): Promise<{ projects: number }> {
+  if (isLastAdmin(user)) {
+    throw new Error('The last admin cannot be deleted');
+  }
+
+  // First, so nothing is gone yet when the image host cannot be reached
+  await deleteUserUploads(user.id);
+
+  const projects = repositories.projects.findByUserId(user.id);
+  for (const project of projects) {
+    repositories.projects.delete(project.id);
+    await revisionStorage.deleteAll(project.id).catch(err => console.error('Error deleting project revisions:', err));
+    const publication = galleryStorage.findByProjectId(project.id);
+    if (publication) {
+      galleryStorage.unpublish(publication.id);
+    }
+  }
+
+  // Projects of others the user was invited to
+  for (const project of repositories.projects.findAll()) {
+    if (project.collaborators?.some(c => c.userId === user.id)) {
+      repositories.projects.save({ ...project, collaborators: project.collaborators.filter(c => c.userId !== user.id) });
+    }
+  }
+
+  removeFromCourses(user.id);
+  sessionStorage.revokeAll(user.id);
+  userStorage.deleteUser(user.id);
+  return { projects: projects.length };
+}
@@ -1,6 +1,20 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
+import { createSecretToken, hashToken, matchesHash } from './secretTokens.js';
+import type { UserRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+
+export type UserRole = 'admin' | 'teacher' | 'student';
+
+export const USER_ROLES: UserRole[] = ['admin', 'teacher', 'student'];
+
+// Links sent by mail, a user has at most one open token per purpose
+export type AccountTokenPurpose = 'verifyEmail' | 'resetPassword';
+
+interface StoredAccountToken {
+  hash: string;
+  expiresAt: string;
+}
 
 export interface User {
   id: string;
@@ -8,81 +22,53 @@ export interface User {
   passwordHash: string;
   name: string;
   profilePicture?: string;
-  role: 'admin' | 'student';
-  course?: 'Design Thinking' | 'Prof. Wamsler Projekt' | 'andere Module'; // Only for students
+  role: UserRole;
+  courseId?: string; // Only for students
+  emailVerifiedAt?: string;
+  accountTokens?: Partial<Record<AccountTokenPurpose, StoredAccountToken>>;
   createdAt: string;
 }
 
-const USERS_DIR = path.join(process.cwd(), 'users');
-const USERS_FILE = path.join(USERS_DIR, 'users.json');
-
-// Ensure users directory exists
-if (!fs.existsSync(USERS_DIR)) {
-  fs.mkdirSync(USERS_DIR, { recursive: true });
-}
-
-// Initialize users file if it doesn't exist
-if (!fs.existsSync(USERS_FILE)) {
-  fs.writeFileSync(USERS_FILE, JSON.stringify({}));
-}
-
-class UserStorage {
-  private users: Map<string, User>;
-
-  constructor() {
-    this.users = new Map();
-    this.load();
-  }
+// Students registered before courses were managed carry the course name instead of an id
+export type LegacyUser = User & { course?: string };
 
-  private load() {
-    try {
-      const data = fs.readFileSync(USERS_FILE, 'utf-8');
-      const usersObj = JSON.parse(data);
-      this.users = new Map(Object.entries(usersObj));
-    } catch (error) {
-      console.error('Error loading users:', error);
-      this.users = new Map();
-    }
-  }
+export class UserStorage {
+  constructor(private readonly repository: UserRepository) {}
 
-  private save() {
-    const usersObj = Object.fromEntries(this.users);
-    fs.writeFileSync(USERS_FILE, JSON.stringify(usersObj, null, 2));
-  }
-
-  async createUser(email: string, password: string, name: string, role: 'admin' | 'student' = 'student', course?: 'Design Thinking' | 'Prof. Wamsler Projekt' | 'andere Module'): Promise<User> {
+  async createUser(email: string, password: string, name: string, role: UserRole = 'student', courseId?: string): Promise<User> {
     if (this.findByEmail(email)) {
       throw new Error('User with this email already exists');
     }
 
     const passwordHash = await bcrypt.hash(password, 10);
     const user: User = {
-      id: Date.now().toString(),
+      id: randomUUID(), // Roster imports create many users within the same millisecond
       email: email.toLowerCase(),
       passwordHash,
       name,
       role,
-      course: role === 'student' ? course : undefined, // Only save course for students
+      courseId: role === 'student' ? courseId : undefined, // Only save course for students
       createdAt: new Date().toISOString()
     };
 
-    this.users.set(user.id, user);
-    this.save();
+    this.repository.save(user);
     return user;
   }
 
   getAllUsers(): User[] {
-    return Array.from(this.users.values());
+    return this.repository.findAll();
   }
 
   findByEmail(email: string): User | undefined {
-    return Array.from(this.users.values()).find(
-      user => user.email === email.toLowerCase()
-    );
+    return this.repository.findByEmail(email);
   }
 
   findById(id: string): User | undefined {
-    return this.users.get(id);
+    return this.repository.findById(id);
+  }
+
+  deleteUser(id: string): boolean {
+    return this.repository.delete(id);
   }
 
   async verifyPassword(email: string, password: string): Promise<User | null> {
@@ -94,25 +80,77 @@ class UserStorage {
   }
 
   async updateUser(id: string, updates: Partial<User>): Promise<User | null> {
-    const user = this.users.get(id);
+    const user = this.repository.findById(id);
     if (!user) return null;
 
     const updatedUser = { ...user, ...updates, id, email: user.email };
-    this.users.set(id, updatedUser);
-    this.save();
+    this.repository.save(updatedUser);
     return updatedUser;
   }
 
   async updatePassword(id: string, newPassword: string): Promise<boolean> {
-    const user = this.users.get(id);
+    const user = this.repository.findById(id);
     if (!user) return false;
 
     const passwordHash = await bcrypt.hash(newPassword, 10);
     user.passwordHash = passwordHash;
-    this.users.set(id, user);
-    this.save();
+    // A reset link sent before must not undo the new password
+    if (user.accountTokens?.resetPassword) {
+      delete user.accountTokens.resetPassword;
+    }
+    this.repository.save(user);
     return true;
   }
+
+  // Replaces the course name of a LegacyUser with the id of that course
+  moveToCourse(id: string, courseId: string): User | undefined {
+    const user: LegacyUser | undefined = this.repository.findById(id);
+    if (!user) return undefined;
+
+    delete user.course;
+    user.courseId = courseId;
+    this.repository.save(user);
+    return user;
+  }
+
+  markEmailVerified(id: string): User | undefined {
+    const user = this.repository.findById(id);
+    if (!user) return undefined;
+
+    user.emailVerifiedAt ??= new Date().toISOString();
+    this.repository.save(user);
+    return user;
+  }
+
+  // Returns the token for the mail link, replacing an older token for the same purpose.
+  // It starts with the user id, so it can be redeemed without asking for the email again.
+  issueAccountToken(id: string, purpose: AccountTokenPurpose, lifetimeMs: number): string | undefined {
+    const user = this.repository.findById(id);
+    if (!user) return undefined;
+
+    const secret = createSecretToken();
+    user.accountTokens = {
+      ...user.accountTokens,
+      [purpose]: { hash: hashToken(secret), expiresAt: new Date(Date.now() + lifetimeMs).toISOString() }
+    };
+    this.repository.save(user);
+    return `${user.id}.${secret}`;
+  }
+
+  // Checks a token from a mail link and removes it, so every link works once
+  consumeAccountToken(token: string, purpose: AccountTokenPurpose): User | undefined {
+    const separator = token.lastIndexOf('.');
+    if (separator <= 0) return undefined;
+
+    const user = this.repository.findById(token.slice(0, separator));
+    const stored = user?.accountTokens?.[purpose];
+    if (!user || !stored || Date.parse(stored.expiresAt) <= Date.now()) return undefined;
+    if (!matchesHash(token.slice(separator + 1), stored.hash)) return undefined;
+
+    delete user.accountTokens![purpose];
+    this.repository.save(user);
+    return user;
+  }
 }
 
-export const userStorage = new UserStorage();
+export const userStorage = new UserStorage(repositories.users);
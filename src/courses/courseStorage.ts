@@ -0,0 +1,169 @@
+import { randomInt, randomUUID } from 'crypto';
+import { normalizeCourseModelSettings, type CourseModelSettings } from '../agent/modelSettings.js';
+import type { CourseRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+
+// One part of the course's grading scheme, scored from 0 to maxPoints
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  maxPoints: number;
+}
+
+export interface Course {
+  id: string;
+  name: string;
+  description?: string;
+  inviteCode: string; // Students join the course with it at registration
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, registration closes after this day
+  teacherIds: string[];
+  rubric?: RubricCriterion[]; // Projects of the course can only be graded with a rubric
+  modelSettings?: CourseModelSettings; // Overrides the model and limits for the course's students
+  createdAt: string;
+}
+
+export type CourseInput = Pick<Course, 'name' | 'description' | 'startDate' | 'endDate' | 'teacherIds' | 'rubric' | 'modelSettings'>;
+
+// No 0/O or 1/I, codes are read off slides and typed in by hand
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function today(now: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Criteria keep their id when edited, grades refer to them by id
+export function normalizeRubric(rubric: unknown): RubricCriterion[] | undefined {
+  if (rubric === null) return undefined;
+  if (!Array.isArray(rubric)) {
+    throw new Error('rubric must be an array of { title, maxPoints }');
+  }
+
+  const criteria = rubric.map((criterion, index): RubricCriterion => {
+    const title = typeof criterion?.title === 'string' ? criterion.title.trim() : '';
+    if (!title) {
+      throw new Error(`Rubric criterion ${index + 1} needs a title`);
+    }
+    if (!Number.isInteger(criterion.maxPoints) || criterion.maxPoints <= 0) {
+      throw new Error(`Rubric criterion "${title}": maxPoints must be a positive whole number`);
+    }
+    return {
+      id: typeof criterion.id === 'string' && criterion.id ? criterion.id : randomUUID().slice(0, 8),
+      title,
+      ...(typeof criterion.description === 'string' && criterion.description.trim() ? { description: criterion.description.trim() } : {}),
+      maxPoints: criterion.maxPoints
+    };
+  });
+
+  if (new Set(criteria.map(c => c.id)).size !== criteria.length) {
+    throw new Error('Rubric criteria need distinct ids');
+  }
+  return criteria.length > 0 ? criteria : undefined;
+}
+
+export class CourseStorage {
+  constructor(private readonly repository: CourseRepository) {}
+
+  createCourse(input: CourseInput): Course {
+    const course: Course = {
+      id: `course_${randomUUID()}`, // The startup migration creates several courses within the same millisecond
+      name: '',
+      inviteCode: this.generateInviteCode(),
+      teacherIds: [],
+      createdAt: new Date().toISOString()
+    };
+    return this.saveValidated(course, input);
+  }
+
+  updateCourse(id: string, updates: Partial<CourseInput>): Course | null {
+    const course = this.repository.findById(id);
+    if (!course) return null;
+    return this.saveValidated(course, updates);
+  }
+
+  regenerateInviteCode(id: string): Course | null {
+    const course = this.repository.findById(id);
+    if (!course) return null;
+
+    course.inviteCode = this.generateInviteCode();
+    this.repository.save(course);
+    return course;
+  }
+
+  deleteCourse(id: string): boolean {
+    return this.repository.delete(id);
+  }
+
+  getAllCourses(): Course[] {
+    return this.repository.findAll();
+  }
+
+  findById(id: string): Course | undefined {
+    return this.repository.findById(id);
+  }
+
+  findByName(name: string): Course | undefined {
+    return this.repository.findAll().find(c => c.name.toLowerCase() === name.trim().toLowerCase());
+  }
+
+  findByInviteCode(code: string): Course | undefined {
+    return this.repository.findByInviteCode(code.trim().toUpperCase());
+  }
+
+  // Students can join until the course has ended, also before it starts
+  isOpenForRegistration(course: Course, now: Date = new Date()): boolean {
+    return !course.endDate || today(now) <= course.endDate;
+  }
+
+  private saveValidated(course: Course, changes: Partial<CourseInput>): Course {
+    const updated: Course = { ...course };
+
+    if (changes.name !== undefined) updated.name = String(changes.name).trim();
+    if (changes.description !== undefined) updated.description = changes.description?.trim() || undefined;
+    if (changes.startDate !== undefined) updated.startDate = changes.startDate || undefined;
+    if (changes.endDate !== undefined) updated.endDate = changes.endDate || undefined;
+    if (changes.teacherIds !== undefined) updated.teacherIds = Array.from(new Set(changes.teacherIds));
+    if (changes.rubric !== undefined) updated.rubric = normalizeRubric(changes.rubric);
+    if (changes.modelSettings !== undefined) updated.modelSettings = normalizeCourseModelSettings(changes.modelSettings);
+
+    if (!updated.name) {
+      throw new Error('Course name is required');
+    }
+    const sameName = this.findByName(updated.name);
+    if (sameName && sameName.id !== updated.id) {
+      throw new Error(`A course named "${updated.name}" already exists`);
+    }
+    for (const date of [updated.startDate, updated.endDate]) {
+      if (date !== undefined && !isDate(date)) {
+        throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+      }
+    }
+    if (updated.startDate && updated.endDate && updated.startDate > updated.endDate) {
+      throw new Error('The course cannot end before it starts');
+    }
+
+    this.repository.save(updated);
+    return updated;
+  }
+
+  private generateInviteCode(): string {
+    for (;;) {
+      let code = '';
+      for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+        code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+      }
+      if (!this.repository.findByInviteCode(code)) {
+        return code;
+      }
+    }
+  }
+}
+
+export const courseStorage = new CourseStorage(repositories.courses);
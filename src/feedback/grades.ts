@@ -0,0 +1,62 @@
+import type { RubricCriterion } from '../courses/courseStorage.js';
+import { toCsv } from '../http/csv.js';
+import type { ProjectGrade } from '../projects/types.js';
+
+// Scores for every criterion of the rubric, nothing else
+export function validateScores(rubric: RubricCriterion[], scores: unknown): Record<string, number> {
+  if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+    throw new Error('scores must be an object of points per criterion id');
+  }
+
+  const input = scores as Record<string, unknown>;
+  const unknownIds = Object.keys(input).filter(id => !rubric.some(c => c.id === id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Not in the rubric: ${unknownIds.join(', ')}`);
+  }
+
+  const validated: Record<string, number> = {};
+  for (const criterion of rubric) {
+    const points = input[criterion.id];
+    if (typeof points !== 'number' || !Number.isFinite(points) || points < 0 || points > criterion.maxPoints) {
+      throw new Error(`"${criterion.title}" needs between 0 and ${criterion.maxPoints} points`);
+    }
+    validated[criterion.id] = points;
+  }
+  return validated;
+}
+
+// Criteria removed from the rubric after grading no longer count
+export function getGradeTotal(rubric: RubricCriterion[], grade: ProjectGrade): { points: number; maxPoints: number } {
+  return {
+    points: rubric.reduce((sum, c) => sum + (grade.scores[c.id] ?? 0), 0),
+    maxPoints: rubric.reduce((sum, c) => sum + c.maxPoints, 0)
+  };
+}
+
+export interface GradeRow {
+  studentName: string;
+  studentEmail: string;
+  projectName: string;
+  grade: ProjectGrade;
+  graderName: string;
+}
+
+// One line per graded project, one column per criterion
+export function buildGradesCsv(rubric: RubricCriterion[], rows: GradeRow[]): string {
+  const header = ['Student', 'Email', 'Project', ...rubric.map(c => `${c.title} (${c.maxPoints})`), 'Total', 'Max', 'Comment', 'Graded by', 'Graded at'];
+  const lines = rows.map(row => {
+    const total = getGradeTotal(rubric, row.grade);
+    return [
+      row.studentName,
+      row.studentEmail,
+      row.projectName,
+      ...rubric.map(c => row.grade.scores[c.id]),
+      total.points,
+      total.maxPoints,
+      row.grade.comment,
+      row.graderName,
+      row.grade.gradedAt
+    ];
+  });
+  return toCsv([header, ...lines]);
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto';
+import type { ProjectFile } from '../projects/types.js';
+import type { PublicationRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+
+// A project as it was when it was published. Later iterations do not change
+// the gallery entry until the project is published again.
+export interface Publication {
+  id: string;
+  projectId: string;
+  userId: string;
+  courseId?: string; // Course of the author when publishing
+  slug: string; // Public address: /gallery/<slug>/
+  title: string;
+  description?: string;
+  thumbnailUrl?: string; // Uploaded image, otherwise a generated placeholder is shown
+  files: ProjectFile[];
+  revision?: number; // Project revision the snapshot was taken from
+  featured: boolean;
+  publishedAt: string;
+  updatedAt: string;
+}
+
+export interface PublishInput {
+  title: string;
+  description?: string;
+  thumbnailUrl?: string;
+}
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents, so "Café" becomes "cafe"
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '') || 'app';
+}
+
+export class GalleryStorage {
+  constructor(private readonly repository: PublicationRepository) {}
+
+  // Publishing again replaces the snapshot and keeps slug and featured flag
+  publish(
+    project: { id: string; userId: string; files: ProjectFile[]; headRevision?: number },
+    courseId: string | undefined,
+    input: PublishInput
+  ): Publication {
+    const title = input.title.trim().slice(0, MAX_TITLE_LENGTH);
+    if (!title) {
+      throw new Error('A title is required');
+    }
+    if (input.thumbnailUrl && !/^https?:\/\//.test(input.thumbnailUrl)) {
+      throw new Error('The thumbnail must be an http(s) URL');
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.repository.findByProjectId(project.id);
+    const publication: Publication = {
+      id: existing?.id ?? randomUUID(),
+      projectId: project.id,
+      userId: project.userId,
+      ...(courseId ? { courseId } : {}),
+      slug: existing?.slug ?? this.uniqueSlug(title),
+      title,
+      ...(input.description?.trim() ? { description: input.description.trim().slice(0, MAX_DESCRIPTION_LENGTH) } : {}),
+      ...(input.thumbnailUrl ? { thumbnailUrl: input.thumbnailUrl } : {}),
+      files: project.files,
+      ...(project.headRevision !== undefined ? { revision: project.headRevision } : {}),
+      featured: existing?.featured ?? false,
+      publishedAt: existing?.publishedAt ?? now,
+      updatedAt: now
+    };
+    this.repository.save(publication);
+    return publication;
+  }
+
+  unpublish(id: string): boolean {
+    return this.repository.delete(id);
+  }
+
+  setFeatured(id: string, featured: boolean): Publication | undefined {
+    const publication = this.repository.findById(id);
+    if (!publication) return undefined;
+
+    publication.featured = featured;
+    this.repository.save(publication);
+    return publication;
+  }
+
+  findById(id: string): Publication | undefined {
+    return this.repository.findById(id);
+  }
+
+  findBySlug(slug: string): Publication | undefined {
+    return this.repository.findBySlug(slug);
+  }
+
+  findByProjectId(projectId: string): Publication | undefined {
+    return this.repository.findByProjectId(projectId);
+  }
+
+  // Featured entries first, then the newest
+  list(filter: { courseId?: string } = {}): Publication[] {
+    return this.repository.findAll()
+      .filter(p => !filter.courseId || p.courseId === filter.courseId)
+      .sort((a, b) => Number(b.featured) - Number(a.featured) || b.publishedAt.localeCompare(a.publishedAt));
+  }
+
+  private uniqueSlug(title: string): string {
+    const base = slugify(title);
+    let slug = base;
+    for (let n = 2; this.repository.findBySlug(slug); n++) {
+      slug = `${base}-${n}`;
+    }
+    return slug;
+  }
+}
+
+export const galleryStorage = new GalleryStorage(repositories.publications);
@@ -0,0 +1,55 @@
+// Stand-in thumbnail for gallery entries without an uploaded image: the title
+// on a gradient in the Makeable colors, picked from the slug so it stays stable
+
+const GRADIENTS: Array<[string, string]> = [
+  ['#8B7FFF', '#FF6B9D'],
+  ['#FF6B9D', '#FFA06B'],
+  ['#6BCBFF', '#8B7FFF'],
+  ['#FFA06B', '#FFD36B'],
+  ['#5ED6A0', '#6BCBFF']
+];
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// Splits the title into at most three lines that fit the card
+function wrapTitle(title: string, maxLineLength = 22): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of title.split(/\s+/)) {
+    if (line && (line + ' ' + word).length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > 3) {
+    lines.length = 3;
+    lines[2] = `${lines[2].slice(0, maxLineLength - 1)}…`;
+  }
+  return lines.map(l => (l.length > maxLineLength ? `${l.slice(0, maxLineLength - 1)}…` : l));
+}
+
+export function renderPlaceholderThumbnail(title: string, slug: string): string {
+  let hash = 0;
+  for (const char of slug) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  const [from, to] = GRADIENTS[hash % GRADIENTS.length];
+
+  const lines = wrapTitle(title);
+  const firstY = 225 - (lines.length - 1) * 24;
+  const text = lines
+    .map((line, i) => `<text x="300" y="${firstY + i * 48}" text-anchor="middle">${escapeXml(line)}</text>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="450" viewBox="0 0 600 450">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>`
+    + `<rect width="600" height="450" fill="url(#g)"/>`
+    + `<g fill="#fff" font-family="-apple-system, Segoe UI, Roboto, sans-serif" font-size="40" font-weight="700">${text}</g>`
+    + `</svg>`;
+}
@@ -0,0 +1,104 @@
+import { EventEmitter } from 'events';
+import type { AgentEvent } from '../agent/createApp.js';
+
+export type GenerationEvent =
+  | { type: 'started'; mode: 'generate' | 'iterate'; prompt: string }
+  | { type: 'queued'; position: number } // Place in the generation queue, sent whenever it changes
+  | { type: 'running' } // Left the queue, agent events follow
+  | AgentEvent
+  | { type: 'completed'; files: Array<{ path: string; size: number }>; validation?: { ok: boolean; issues: number } }
+  | { type: 'failed'; error: string };
+
+export interface StoredGenerationEvent {
+  id: number;
+  projectId: string;
+  timestamp: string;
+  event: GenerationEvent;
+}
+
+type Listener = (event: StoredGenerationEvent) => void;
+
+// How long the events of a finished run stay available for late subscribers
+const FINISHED_RUN_TTL_MS = 5 * 60 * 1000;
+
+export function isTerminalEvent(event: GenerationEvent): boolean {
+  return event.type === 'completed' || event.type === 'failed';
+}
+
+// In-process pub/sub for generation progress. Each project keeps the events of
+// its latest run, so a client that connects after /api/generate returned still
+// receives everything from the start.
+class GenerationEvents {
+  private emitter = new EventEmitter();
+  private runs = new Map<string, StoredGenerationEvent[]>();
+  private cleanupTimers = new Map<string, NodeJS.Timeout>();
+  private nextId = 1;
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(projectId: string, event: GenerationEvent): StoredGenerationEvent {
+    if (event.type === 'started') {
+      // A new run replaces the history of the previous one
+      this.runs.set(projectId, []);
+      this.clearCleanup(projectId);
+    }
+
+    const stored: StoredGenerationEvent = {
+      id: this.nextId++,
+      projectId,
+      timestamp: new Date().toISOString(),
+      event
+    };
+
+    const history = this.runs.get(projectId) || [];
+    history.push(stored);
+    this.runs.set(projectId, history);
+
+    if (isTerminalEvent(event)) {
+      this.scheduleCleanup(projectId);
+    }
+
+    this.emitter.emit(projectId, stored);
+    return stored;
+  }
+
+  getHistory(projectId: string): StoredGenerationEvent[] {
+    return [...(this.runs.get(projectId) || [])];
+  }
+
+  isRunning(projectId: string): boolean {
+    const history = this.runs.get(projectId);
+    if (!history || history.length === 0) return false;
+    return !isTerminalEvent(history[history.length - 1].event);
+  }
+
+  subscribe(projectId: string, listener: Listener): () => void {
+    this.emitter.on(projectId, listener);
+    return () => {
+      this.emitter.off(projectId, listener);
+    };
+  }
+
+  private scheduleCleanup(projectId: string) {
+    this.clearCleanup(projectId);
+    const timer = setTimeout(() => {
+      this.runs.delete(projectId);
+      this.cleanupTimers.delete(projectId);
+    }, FINISHED_RUN_TTL_MS);
+    timer.unref();
+    this.cleanupTimers.set(projectId, timer);
+  }
+
+  private clearCleanup(projectId: string) {
+    const timer = this.cleanupTimers.get(projectId);
+    if (timer) {
+      clearTimeout(timer);
+      this.cleanupTimers.delete(projectId);
+    }
+  }
+}
+
+export const generationEvents = new GenerationEvents();
@@ -0,0 +1,203 @@
+import { generationEvents } from './generationEvents.js';
+
+export interface QueueLimits {
+  maxConcurrent: number; // Runs across all users
+  maxPerUser: number; // Runs of one user at the same time
+  maxQueuedPerUser: number; // Waiting runs of one user, further requests are rejected
+}
+
+export interface GenerationJob<T = void> {
+  projectId: string;
+  userId: string;
+  run: () => Promise<T>;
+}
+
+interface QueuedJob extends GenerationJob<unknown> {
+  sequence: number;
+  enqueuedAt: string;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface QueueListeners {
+  onPositionChange?: (projectId: string, position: number) => void;
+  onStart?: (projectId: string) => void;
+}
+
+export interface QueueSnapshot {
+  limits: QueueLimits;
+  running: Array<{ projectId: string; userId: string; enqueuedAt: string }>;
+  waiting: Array<{ projectId: string; userId: string; enqueuedAt: string; position: number }>;
+}
+
+// Thrown when a user already has too many runs waiting, mapped to 429 responses
+export class QueueFullError extends Error {
+  constructor(limit: number) {
+    super(`You already have ${limit} generation(s) waiting. Please wait until one of them has finished.`);
+    this.name = 'QueueFullError';
+  }
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getQueueLimits(env: NodeJS.ProcessEnv = process.env): QueueLimits {
+  return {
+    maxConcurrent: readLimit(env.MAX_CONCURRENT_GENERATIONS, 4),
+    maxPerUser: readLimit(env.MAX_GENERATIONS_PER_USER, 1),
+    maxQueuedPerUser: readLimit(env.MAX_QUEUED_GENERATIONS_PER_USER, 3)
+  };
+}
+
+// In-process queue for generate/iterate runs. Users take turns: the n-th
+// run of every user goes before the (n+1)-th run of anyone, so one student with
+// many requests cannot hold up the rest of the class.
+export class GenerationQueue {
+  private waiting: QueuedJob[] = [];
+  private running = new Map<string, QueuedJob>();
+  private lastPositions = new Map<string, number>();
+  private nextSequence = 1;
+
+  constructor(
+    private readonly limits: QueueLimits,
+    private readonly listeners: QueueListeners = {}
+  ) {}
+
+  // Throws QueueFullError when the user cannot queue another run right now
+  assertCanEnqueue(userId: string) {
+    const queuedForUser = this.waiting.filter(j => j.userId === userId).length;
+    if (queuedForUser >= this.limits.maxQueuedPerUser) {
+      throw new QueueFullError(this.limits.maxQueuedPerUser);
+    }
+  }
+
+  // Resolves with the job's result once it has run, rejects with its error
+  enqueue<T>(job: GenerationJob<T>): Promise<T> {
+    if (this.isQueued(job.projectId)) {
+      throw new Error(`Project ${job.projectId} is already queued`);
+    }
+    this.assertCanEnqueue(job.userId);
+
+    const done = new Promise<T>((resolve, reject) => {
+      this.waiting.push({
+        ...job,
+        sequence: this.nextSequence++,
+        enqueuedAt: new Date().toISOString(),
+        resolve: value => resolve(value as T),
+        reject
+      });
+    });
+
+    this.schedule();
+    return done;
+  }
+
+  // Drops a run that has not started yet, its promise rejects with `reason`
+  cancel(projectId: string, reason: Error = new Error('Generation was cancelled')): boolean {
+    const index = this.waiting.findIndex(j => j.projectId === projectId);
+    if (index === -1) return false;
+
+    const [job] = this.waiting.splice(index, 1);
+    this.lastPositions.delete(projectId);
+    job.reject(reason);
+    this.notifyPositions();
+    return true;
+  }
+
+  isQueued(projectId: string): boolean {
+    return this.running.has(projectId) || this.waiting.some(j => j.projectId === projectId);
+  }
+
+  // 1-based place in line, 0 while running, undefined when not queued
+  getPosition(projectId: string): number | undefined {
+    if (this.running.has(projectId)) return 0;
+    const index = this.fairOrder().findIndex(j => j.projectId === projectId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  getSnapshot(): QueueSnapshot {
+    const describe = (job: QueuedJob) => ({ projectId: job.projectId, userId: job.userId, enqueuedAt: job.enqueuedAt });
+    return {
+      limits: { ...this.limits },
+      running: Array.from(this.running.values()).map(describe),
+      waiting: this.fairOrder().map((job, index) => ({ ...describe(job), position: index + 1 }))
+    };
+  }
+
+  // Waiting jobs in the order they will start: round by round over the users,
+  // within a round the user who asked first goes first. Running jobs count as
+  // earlier rounds, so users with nothing running are served first.
+  private fairOrder(): QueuedJob[] {
+    const perUser = new Map<string, number>();
+    const ranked = this.waiting.map(job => {
+      const round = perUser.get(job.userId) ?? this.runningForUser(job.userId);
+      perUser.set(job.userId, round + 1);
+      return { job, round };
+    });
+    ranked.sort((a, b) => a.round - b.round || a.job.sequence - b.job.sequence);
+    return ranked.map(r => r.job);
+  }
+
+  private runningForUser(userId: string): number {
+    let count = 0;
+    for (const job of this.running.values()) {
+      if (job.userId === userId) count++;
+    }
+    return count;
+  }
+
+  private schedule() {
+    while (this.running.size < this.limits.maxConcurrent) {
+      const next = this.fairOrder().find(j => this.runningForUser(j.userId) < this.limits.maxPerUser);
+      if (!next) break;
+
+      this.waiting.splice(this.waiting.indexOf(next), 1);
+      this.running.set(next.projectId, next);
+      this.lastPositions.delete(next.projectId);
+      this.start(next);
+    }
+    this.notifyPositions();
+  }
+
+  private start(job: QueuedJob) {
+    this.notify(() => this.listeners.onStart?.(job.projectId));
+
+    let result: Promise<unknown>;
+    try {
+      result = job.run();
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+
+    result.then(job.resolve, job.reject).finally(() => {
+      this.running.delete(job.projectId);
+      this.schedule();
+    });
+  }
+
+  private notifyPositions() {
+    this.fairOrder().forEach((job, index) => {
+      const position = index + 1;
+      if (this.lastPositions.get(job.projectId) !== position) {
+        this.lastPositions.set(job.projectId, position);
+        this.notify(() => this.listeners.onPositionChange?.(job.projectId, position));
+      }
+    });
+  }
+
+  // A broken listener must never stall the queue
+  private notify(callback: () => void) {
+    try {
+      callback();
+    } catch (error) {
+      console.error('Queue listener error:', error);
+    }
+  }
+}
+
+export const generationQueue = new GenerationQueue(getQueueLimits(), {
+  onPositionChange: (projectId, position) => generationEvents.publish(projectId, { type: 'queued', position }),
+  onStart: projectId => generationEvents.publish(projectId, { type: 'running' })
+});
@@ -0,0 +1,106 @@
+import type { Request } from 'express';
+import rateLimit, { type Options } from 'express-rate-limit';
+import type { AuthRequest } from '../auth/authMiddleware.js';
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Same error shape as the other 429 responses, the client shows `details`
+const rejectRequest: Options['handler'] = (req, res, _next, options) => {
+  const retryAfterSeconds = Math.ceil(options.windowMs / 1000);
+  res.status(options.statusCode).json({
+    error: 'Too many requests',
+    details: `Too many requests, please try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`
+  });
+};
+
+// The auth limits count per IP address, but a whole class can sit behind one
+// school NAT. Each route group has its own budget and most only count failed
+// requests, so normal logins of a class never add up.
+const AUTH_WINDOW_MS = 15 * 60 * 1000;
+const authLimit = readLimit(process.env.AUTH_RATE_LIMIT, 20);
+
+function emailOf(req: Request): string {
+  return typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+}
+
+// Wrong passwords per IP address and account, against password guessing
+export const loginRateLimit = rateLimit({
+  windowMs: AUTH_WINDOW_MS,
+  limit: authLimit,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  keyGenerator: req => `login:${req.ip}:${emailOf(req)}`,
+  handler: rejectRequest
+});
+
+// Wrong passwords per IP address for all accounts together, against trying one
+// password on many accounts. Higher, since a whole class shares the address.
+export const loginIpRateLimit = rateLimit({
+  windowMs: AUTH_WINDOW_MS,
+  limit: readLimit(process.env.LOGIN_IP_RATE_LIMIT, 100),
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  keyGenerator: req => `login-ip:${req.ip}`,
+  handler: rejectRequest
+});
+
+// Registration and admin setup, failed ones are guesses of invite codes or setup tokens
+export const registrationRateLimit = rateLimit({
+  windowMs: AUTH_WINDOW_MS,
+  limit: authLimit,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  handler: rejectRequest
+});
+
+// Verification and reset mails per IP address and account, every request sends a mail
+export const accountEmailRateLimit = rateLimit({
+  windowMs: AUTH_WINDOW_MS,
+  limit: authLimit,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  keyGenerator: req => `mail:${req.ip}:${emailOf(req)}`,
+  handler: rejectRequest
+});
+
+// Links from those mails, failed ones are guesses of the token
+export const accountTokenRateLimit = rateLimit({
+  windowMs: AUTH_WINDOW_MS,
+  limit: authLimit,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  handler: rejectRequest
+});
+
+// Access token refreshes per session. Every open tab refreshes about every 15
+// minutes, so the limit is high and never shared with other users behind the same IP.
+export const sessionRefreshRateLimit = rateLimit({
+  windowMs: AUTH_WINDOW_MS,
+  limit: readLimit(process.env.REFRESH_RATE_LIMIT, 100),
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  // The refresh token starts with the session id
+  keyGenerator: req => {
+    const refreshToken = req.cookies?.refreshToken;
+    return typeof refreshToken === 'string' ? `refresh:${refreshToken.split('.')[0]}` : `refresh-ip:${req.ip}`;
+  },
+  handler: rejectRequest
+});
+
+// Generate, iterate and suggestions, counted per user so a class behind one
+// university NAT does not share a single budget. Must run after authMiddleware.
+export const generationRateLimit = rateLimit({
+  windowMs: 10 * 60 * 1000,
+  limit: readLimit(process.env.GENERATION_RATE_LIMIT, 30),
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  keyGenerator: req => `user:${(req as AuthRequest).userId}`,
+  handler: rejectRequest
+});
@@ -0,0 +1,34 @@
+import type { User } from '../auth/userStorage.js';
+import type { MailMessage } from './mailer.js';
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function linkMessage(user: User, subject: string, lines: string[], link: string, action: string): MailMessage {
+  return {
+    to: user.email,
+    subject,
+    text: [`Hi ${user.name},`, '', ...lines, '', link, '', 'Makeable'].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(user.name)},</p>`,
+      ...lines.map(line => `<p>${escapeHtml(line)}</p>`),
+      `<p><a href="${escapeHtml(link)}">${escapeHtml(action)}</a></p>`,
+      '<p>Makeable</p>'
+    ].join('\n')
+  };
+}
+
+export function verificationEmail(user: User, link: string): MailMessage {
+  return linkMessage(user, 'Confirm your email address for Makeable', [
+    'Please confirm your email address by opening the link below.',
+    'If you did not create a Makeable account, you can ignore this mail.'
+  ], link, 'Confirm email address');
+}
+
+export function passwordResetEmail(user: User, link: string): MailMessage {
+  return linkMessage(user, 'Reset your Makeable password', [
+    'Someone asked to reset the password of your Makeable account. Open the link below within an hour to choose a new one.',
+    'If that was not you, you can ignore this mail and your password stays the same.'
+  ], link, 'Choose a new password');
+}
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import { OutboxMailer } from './outboxMailer.js';
+import { SmtpMailer } from './smtpMailer.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// A way to deliver mail. Sending may fail, callers decide whether that matters.
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransport = 'smtp' | 'outbox';
+
+// MAIL_TRANSPORT picks the transport; without it SMTP is used when SMTP_HOST is set,
+// otherwise mails are written to the outbox folder (MAIL_OUTBOX_DIR, default ./outbox)
+export function createMailer(env: NodeJS.ProcessEnv = process.env): Mailer {
+  const transport = (env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'outbox')) as MailTransport;
+  const from = env.MAIL_FROM || 'Makeable <no-reply@localhost>';
+
+  switch (transport) {
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      const port = Number.parseInt(env.SMTP_PORT || '587', 10);
+      return new SmtpMailer({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from
+      });
+    }
+    case 'outbox':
+      return new OutboxMailer(env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'), from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}", expected "smtp" or "outbox"`);
+  }
+}
+
+export const mailer = createMailer();
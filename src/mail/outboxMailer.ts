@@ -0,0 +1,43 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { Mailer, MailMessage } from './mailer.js';
+
+export interface OutboxEntry extends MailMessage {
+  id: string;
+  from: string;
+  sentAt: string;
+}
+
+// Writes every mail as a JSON file instead of sending it, for development
+// and tests without a mail server. The newest file is the last mail sent.
+export class OutboxMailer implements Mailer {
+  constructor(
+    private readonly dir: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const entry: OutboxEntry = { id: randomUUID(), from: this.from, ...message, sentAt: new Date().toISOString() };
+    await fs.mkdir(this.dir, { recursive: true });
+    // Timestamp first so the files sort by sending time
+    const file = path.join(this.dir, `${entry.sentAt.replace(/[:.]/g, '-')}-${entry.id}.json`);
+    await fs.writeFile(file, JSON.stringify(entry, null, 2));
+    console.log(`📧 Mail to ${message.to} written to ${file}`);
+  }
+
+  // Mails in sending order, optionally only those to one address
+  async list(to?: string): Promise<OutboxEntry[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter(f => f.endsWith('.json')).sort();
+    } catch {
+      return [];
+    }
+
+    const entries = await Promise.all(
+      files.map(async f => JSON.parse(await fs.readFile(path.join(this.dir, f), 'utf-8')) as OutboxEntry)
+    );
+    return to ? entries.filter(e => e.to.toLowerCase() === to.toLowerCase()) : entries;
+  }
+}
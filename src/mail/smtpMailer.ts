@@ -0,0 +1,28 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { Mailer, MailMessage } from './mailer.js';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465), otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export class SmtpMailer implements Mailer {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user ? { auth: { user: options.user, pass: options.password } } : {})
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.options.from, ...message });
+  }
+}
@@ -0,0 +1,89 @@
+import path from 'path';
+
+interface PreviewFile {
+  path: string;
+  content: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json; charset=utf-8',
+  '.svg': 'image/svg+xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8'
+};
+
+export function getMimeType(filePath: string): string {
+  const ext = path.posix.extname(filePath).toLowerCase();
+  return MIME_TYPES[ext] || 'application/octet-stream';
+}
+
+// Normalize a project file path or request path to a clean relative path
+// ("./css/app.css", "/css/app.css" and "css//app.css" all become "css/app.css").
+// Returns null if the path tries to escape the project root.
+export function normalizeFilePath(filePath: string): string | null {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'))
+    .replace(/^(\.\/|\/)+/, '')
+    .replace(/\/+$/, '');
+
+  if (normalized === '.' || normalized === '') {
+    return '';
+  }
+
+  if (normalized === '..' || normalized.startsWith('../')) {
+    return null;
+  }
+
+  return normalized;
+}
+
+// The files a normalized path may stand for, in order: directories map to their
+// index.html and extensionless paths may point to a page ("about" to about.html)
+export function getCandidatePaths(normalizedPath: string, isDirectory: boolean): string[] {
+  if (normalizedPath === '' || isDirectory) {
+    return [normalizedPath ? `${normalizedPath}/index.html` : 'index.html'];
+  }
+  return path.posix.extname(normalizedPath)
+    ? [normalizedPath]
+    : [normalizedPath, `${normalizedPath}.html`, `${normalizedPath}/index.html`];
+}
+
+// Resolve the requested path against the project files the same way a static
+// host would: see getCandidatePaths, and unknown pages fall back to the root index.html.
+export function resolvePreviewFile(files: PreviewFile[], requestPath: string): PreviewFile | null {
+  const requested = normalizeFilePath(requestPath);
+  if (requested === null) {
+    return null;
+  }
+
+  const byPath = new Map<string, PreviewFile>();
+  for (const file of files) {
+    const normalized = normalizeFilePath(file.path);
+    if (normalized) {
+      byPath.set(normalized, file);
+    }
+  }
+
+  for (const candidate of getCandidatePaths(requested, requestPath.endsWith('/'))) {
+    const file = byPath.get(candidate);
+    if (file) {
+      return file;
+    }
+  }
+
+  // Missing assets (styles.css, app.js, ...) are real 404s, only page
+  // navigations fall back to the app entry point
+  const ext = path.posix.extname(requested);
+  if (!ext || ext === '.html' || ext === '.htm') {
+    return byPath.get('index.html') || null;
+  }
+
+  return null;
+}
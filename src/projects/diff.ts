@@ -0,0 +1,166 @@
+interface DiffFile {
+  path: string;
+  content: string;
+}
+
+export type LineOp = { type: 'equal' | 'add' | 'remove'; line: string };
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Prefixed with ' ', '+' or '-' like a unified diff
+}
+
+export interface FileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+const CONTEXT_LINES = 3;
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Myers O(ND) diff, returns the edit script from a to b line by line
+export function diffLines(a: string[], b: string[]): LineOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the diagonals -d-1..d+1 as they were before step d
+  const trace: Int32Array[] = [];
+
+  let found = n === 0 && m === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: LineOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (k: number) => vd[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'add', line: b[y - 1] });
+      } else {
+        ops.push({ type: 'remove', line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function buildHunks(ops: LineOp[]): DiffHunk[] {
+  // Line numbers before each op, in the old and the new file
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (op.type !== 'add') oldLine++;
+    if (op.type !== 'remove') newLine++;
+  }
+
+  // Group changes whose unchanged gap is small enough to share context
+  const ranges: Array<[number, number]> = [];
+  ops.forEach((op, i) => {
+    if (op.type === 'equal') return;
+    const last = ranges[ranges.length - 1];
+    if (last && i - last[1] <= CONTEXT_LINES * 2 + 1) {
+      last[1] = i;
+    } else {
+      ranges.push([i, i]);
+    }
+  });
+
+  return ranges.map(([first, lastChange]) => {
+    const start = Math.max(0, first - CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, lastChange + CONTEXT_LINES);
+    const slice = ops.slice(start, end + 1);
+    const prefix = { equal: ' ', add: '+', remove: '-' } as const;
+
+    return {
+      oldStart: oldNumbers[start],
+      oldLines: slice.filter(o => o.type !== 'add').length,
+      newStart: newNumbers[start],
+      newLines: slice.filter(o => o.type !== 'remove').length,
+      lines: slice.map(o => `${prefix[o.type]}${o.line}`)
+    };
+  });
+}
+
+export function diffFile(path: string, before: string | undefined, after: string | undefined): FileDiff {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const additions = ops.filter(o => o.type === 'add').length;
+  const deletions = ops.filter(o => o.type === 'remove').length;
+
+  let status: FileDiff['status'];
+  if (before === undefined) status = 'added';
+  else if (after === undefined) status = 'removed';
+  else if (before === after) status = 'unchanged';
+  else status = 'modified';
+
+  return {
+    path,
+    status,
+    additions,
+    deletions,
+    hunks: status === 'unchanged' ? [] : buildHunks(ops)
+  };
+}
+
+// Compare two file sets path by path
+export function diffFileSets(before: DiffFile[], after: DiffFile[]): FileDiff[] {
+  const beforeMap = new Map(before.map(f => [f.path, f.content]));
+  const afterMap = new Map(after.map(f => [f.path, f.content]));
+  const paths = Array.from(new Set([...beforeMap.keys(), ...afterMap.keys()])).sort();
+
+  return paths.map(p => diffFile(p, beforeMap.get(p), afterMap.get(p)));
+}
@@ -0,0 +1,235 @@
+import archiver from 'archiver';
+import yauzl from 'yauzl';
+import type { Writable } from 'stream';
+import { normalizeFilePath } from '../preview/previewFiles.js';
+import type { Project, ProjectFile } from './types.js';
+
+export const MANIFEST_FILE = 'makeable.json';
+
+export interface ProjectManifest {
+  format: 1;
+  name: string;
+  prompt: string;
+  promptHistory: Array<{ prompt: string; timestamp: string }>;
+  createdAt: string;
+  exportedAt: string;
+}
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 200,
+  maxFileBytes: 2 * 1024 * 1024,
+  maxTotalBytes: 10 * 1024 * 1024
+};
+
+export interface ImportedArchive {
+  files: ProjectFile[];
+  manifest?: Partial<ProjectManifest>;
+  skipped: string[]; // Entries that were ignored (binary files, OS metadata)
+}
+
+// Thrown for archives the user has to fix, mapped to 400 responses
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export function writeProjectArchive(project: Project, output: Writable, includeManifest = true): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    archive.on('error', reject);
+    archive.on('warning', warning => console.warn('Archive warning:', warning));
+    output.on('close', () => resolve());
+    output.on('error', reject);
+
+    archive.pipe(output);
+
+    for (const file of project.files) {
+      const filePath = normalizeFilePath(file.path);
+      if (filePath) {
+        archive.append(file.content, { name: filePath, date: new Date(project.statusUpdatedAt || project.createdAt) });
+      }
+    }
+
+    // Never shadow a project file of the same name
+    const hasOwnManifest = project.files.some(f => normalizeFilePath(f.path) === MANIFEST_FILE);
+    if (includeManifest && !hasOwnManifest) {
+      const manifest: ProjectManifest = {
+        format: 1,
+        name: project.name,
+        prompt: project.prompt,
+        promptHistory: project.promptHistory || [],
+        createdAt: project.createdAt,
+        exportedAt: new Date().toISOString()
+      };
+      archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_FILE });
+    }
+
+    archive.finalize().catch(reject);
+  });
+}
+
+function openZip(buffer: Buffer): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(buffer, { lazyEntries: true, validateEntrySizes: true }, (error, zipFile) => {
+      if (error || !zipFile) {
+        reject(new ArchiveError('The uploaded file is not a valid ZIP archive'));
+      } else {
+        resolve(zipFile);
+      }
+    });
+  });
+}
+
+function readEntry(zipFile: yauzl.ZipFile, entry: yauzl.Entry, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        return reject(new ArchiveError(`Could not read ${entry.fileName} from the archive`));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      stream.on('data', (chunk: Buffer) => {
+        // Do not trust the sizes in the ZIP headers alone
+        size += chunk.length;
+        if (size > maxBytes) {
+          stream.destroy(new ArchiveError(`${entry.fileName} is larger than ${Math.round(maxBytes / 1024)} KB`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+  });
+}
+
+function isIgnoredEntry(name: string): boolean {
+  return name.startsWith('__MACOSX/') || name.split('/').some(part => part === '.DS_Store' || part === 'Thumbs.db');
+}
+
+// Zips made from a folder wrap everything in that folder, unwrap it
+function stripCommonRoot(files: ProjectFile[]): ProjectFile[] {
+  if (files.length === 0 || files.some(f => !f.path.includes('/'))) {
+    return files;
+  }
+  const root = files[0].path.split('/')[0];
+  if (files.some(f => f.path.split('/')[0] !== root)) {
+    return files;
+  }
+  return files.map(f => ({ ...f, path: f.path.slice(root.length + 1) }));
+}
+
+// The manifest comes from the uploaded file, keep only the fields that have the expected types
+function parseManifest(value: unknown): Partial<ProjectManifest> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const fields = value as Record<string, unknown>;
+
+  const manifest: Partial<ProjectManifest> = {};
+  if (typeof fields.name === 'string') manifest.name = fields.name;
+  if (typeof fields.prompt === 'string') manifest.prompt = fields.prompt;
+  if (typeof fields.createdAt === 'string') manifest.createdAt = fields.createdAt;
+  if (Array.isArray(fields.promptHistory)) {
+    manifest.promptHistory = fields.promptHistory.flatMap((entry: unknown) => {
+      if (typeof entry !== 'object' || entry === null) return [];
+      const { prompt, timestamp } = entry as Record<string, unknown>;
+      return typeof prompt === 'string' && typeof timestamp === 'string' ? [{ prompt, timestamp }] : [];
+    });
+  }
+  return manifest;
+}
+
+export async function readProjectArchive(
+  buffer: Buffer,
+  limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS
+): Promise<ImportedArchive> {
+  const zipFile = await openZip(buffer);
+
+  if (zipFile.entryCount > limits.maxEntries) {
+    zipFile.close();
+    throw new ArchiveError(`The archive contains more than ${limits.maxEntries} entries`);
+  }
+
+  const files: ProjectFile[] = [];
+  const skipped: string[] = [];
+  let totalBytes = 0;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      // yauzl validates entry names itself (absolute paths, "..") and reports them here
+      zipFile.on('error', (error: Error) => {
+        reject(error instanceof ArchiveError ? error : new ArchiveError(`Invalid archive: ${error.message}`));
+      });
+      zipFile.on('end', () => resolve());
+      zipFile.on('entry', async (entry: yauzl.Entry) => {
+        try {
+          const name = entry.fileName;
+
+          // Directory entries and OS metadata carry no content
+          if (name.endsWith('/') || isIgnoredEntry(name)) {
+            return zipFile.readEntry();
+          }
+
+          const filePath = normalizeFilePath(name);
+          if (!filePath || name.startsWith('/') || /^[a-zA-Z]:/.test(name)) {
+            throw new ArchiveError(`Invalid path in archive: ${name}`);
+          }
+
+          if (entry.uncompressedSize > limits.maxFileBytes) {
+            throw new ArchiveError(`${name} is larger than ${Math.round(limits.maxFileBytes / 1024)} KB`);
+          }
+          totalBytes += entry.uncompressedSize;
+          if (totalBytes > limits.maxTotalBytes) {
+            throw new ArchiveError(`The archive is larger than ${Math.round(limits.maxTotalBytes / 1024 / 1024)} MB when extracted`);
+          }
+
+          const content = await readEntry(zipFile, entry, limits.maxFileBytes);
+
+          // Projects only hold text files
+          if (content.includes(0)) {
+            skipped.push(filePath);
+          } else {
+            files.push({ path: filePath, content: content.toString('utf-8') });
+          }
+
+          zipFile.readEntry();
+        } catch (error) {
+          reject(error);
+        }
+      });
+      zipFile.readEntry();
+    });
+  } finally {
+    zipFile.close();
+  }
+
+  const unwrapped = stripCommonRoot(files);
+
+  let manifest: Partial<ProjectManifest> | undefined;
+  const manifestIndex = unwrapped.findIndex(f => f.path === MANIFEST_FILE);
+  if (manifestIndex !== -1) {
+    try {
+      manifest = parseManifest(JSON.parse(unwrapped[manifestIndex].content));
+    } catch {
+      // Not our manifest, keep it as a regular project file
+    }
+    if (manifest) unwrapped.splice(manifestIndex, 1);
+  }
+
+  if (unwrapped.length === 0) {
+    throw new ArchiveError('The archive does not contain any text files');
+  }
+
+  return { files: unwrapped, manifest, skipped };
+}
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isValidProjectId } from './types.js';
+
+export type RevisionKind = 'generate' | 'iterate' | 'restore' | 'baseline' | 'import' | 'fork';
+
+export interface Revision {
+  number: number; // 1-based, increasing per project
+  projectId: string;
+  kind: RevisionKind;
+  prompt: string;
+  files: Array<{ path: string; content: string }>;
+  createdAt: string;
+  restoredFrom?: number; // Only for kind 'restore'
+}
+
+export type RevisionSummary = Omit<Revision, 'files'> & { fileCount: number };
+
+// Append-only revision log, one JSON file per project.
+// Revisions are never modified once written; restoring creates a new head.
+export class RevisionStorage {
+  // Serialize writes per project so concurrent runs cannot lose revisions
+  private writeQueues = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly dir: string) {}
+
+  async init() {
+    await fs.mkdir(this.dir, { recursive: true });
+  }
+
+  private filePath(projectId: string) {
+    if (!isValidProjectId(projectId)) {
+      throw new Error(`Invalid project id "${projectId}"`);
+    }
+    return path.join(this.dir, `${projectId}.json`);
+  }
+
+  async list(projectId: string): Promise<Revision[]> {
+    try {
+      const data = await fs.readFile(this.filePath(projectId), 'utf-8');
+      return JSON.parse(data) as Revision[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async listSummaries(projectId: string): Promise<RevisionSummary[]> {
+    const revisions = await this.list(projectId);
+    return revisions.map(({ files, ...rest }) => ({ ...rest, fileCount: files.length }));
+  }
+
+  async get(projectId: string, number: number): Promise<Revision | undefined> {
+    const revisions = await this.list(projectId);
+    return revisions.find(r => r.number === number);
+  }
+
+  async getHead(projectId: string): Promise<Revision | undefined> {
+    const revisions = await this.list(projectId);
+    return revisions[revisions.length - 1];
+  }
+
+  async append(
+    projectId: string,
+    revision: Pick<Revision, 'kind' | 'prompt' | 'files'> & { restoredFrom?: number; createdAt?: string }
+  ): Promise<Revision> {
+    return this.enqueue(projectId, async () => {
+      const revisions = await this.list(projectId);
+      const last = revisions[revisions.length - 1];
+
+      const created: Revision = {
+        number: last ? last.number + 1 : 1,
+        projectId,
+        kind: revision.kind,
+        prompt: revision.prompt,
+        // Copy so later in-place edits of the project never leak into history
+        files: revision.files.map(f => ({ path: f.path, content: f.content })),
+        createdAt: revision.createdAt || new Date().toISOString(),
+        ...(revision.restoredFrom !== undefined ? { restoredFrom: revision.restoredFrom } : {})
+      };
+
+      revisions.push(created);
+      await this.writeAtomic(projectId, revisions);
+      return created;
+    });
+  }
+
+  // Projects created before revisions existed get their current files recorded
+  // as revision 1, so the first iteration can still be rolled back
+  async ensureBaseline(
+    projectId: string,
+    files: Array<{ path: string; content: string }>,
+    prompt: string,
+    createdAt: string
+  ): Promise<void> {
+    const revisions = await this.list(projectId);
+    if (revisions.length === 0 && files.length > 0) {
+      await this.append(projectId, { kind: 'baseline', prompt, files, createdAt });
+    }
+  }
+
+  async deleteAll(projectId: string): Promise<void> {
+    await this.enqueue(projectId, () => fs.rm(this.filePath(projectId), { force: true }));
+  }
+
+  private async writeAtomic(projectId: string, revisions: Revision[]) {
+    const target = this.filePath(projectId);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(revisions, null, 2));
+    await fs.rename(tmp, target);
+  }
+
+  private enqueue<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueues.get(projectId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writeQueues.set(projectId, next);
+    next.finally(() => {
+      if (this.writeQueues.get(projectId) === next) {
+        this.writeQueues.delete(projectId);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,98 @@
+import type { ValidationReport } from '../agent/validateFiles.js';
+
+export type ProjectStatus = 'queued' | 'generating' | 'ready' | 'failed';
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+export type CollaboratorRole = 'viewer' | 'editor';
+
+// Another user who may open (viewer) or also change (editor) the project
+export interface ProjectCollaborator {
+  userId: string;
+  role: CollaboratorRole;
+  addedAt: string;
+}
+
+// Read-only link that shows the app without logging in
+export interface ShareLink {
+  id: string;
+  token: string; // Part of the URL, kept so the owner can copy the link again
+  createdAt: string;
+  expiresAt?: string; // Never expires without
+}
+
+// Comment of a teacher, pinned to the revision (and optionally file and line) it was written on
+export interface FeedbackComment {
+  id: string;
+  authorId: string;
+  revision?: number;
+  path?: string; // Refers to the whole project without
+  line?: number; // 1-based, only with a path
+  text: string;
+  createdAt: string;
+}
+
+// Rubric scores for the project in the course of its owner
+export interface ProjectGrade {
+  courseId: string;
+  scores: Record<string, number>; // Points per rubric criterion id
+  comment?: string;
+  revision?: number; // Revision that was graded
+  gradedBy: string;
+  gradedAt: string;
+}
+
+// Where a forked project was copied from
+export interface ProjectOrigin {
+  projectId: string;
+  userId: string;
+  name: string; // Name of the original when it was forked
+  revision?: number;
+  publicationId?: string; // Only when the gallery snapshot was copied
+  forkedAt: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  prompt: string;
+  promptHistory?: Array<{ prompt: string; timestamp: string }>; // History of all prompts
+  files: ProjectFile[];
+  createdAt: string;
+  userId: string;
+  headRevision?: number; // Revision number the current files belong to
+  status: ProjectStatus; // Lifecycle of the latest generate/iterate run
+  error?: string; // Failure reason of the latest run (only when status is 'failed')
+  statusUpdatedAt: string;
+  generationStartedAt?: string;
+  generationCompletedAt?: string;
+  validation?: ValidationReport; // Automatic checks on the files of the latest successful run
+  collaborators?: ProjectCollaborator[];
+  shareLinks?: ShareLink[];
+  forkedFrom?: ProjectOrigin;
+  templateId?: string; // Template the first generation started from
+  feedback?: FeedbackComment[];
+  grade?: ProjectGrade;
+}
+
+// Ids become file names (<id>.json), so they must not contain dots or slashes
+const PROJECT_ID_PATTERN = /^project_[A-Za-z0-9_-]+$/;
+
+export function isValidProjectId(id: string): boolean {
+  return PROJECT_ID_PATTERN.test(id);
+}
+
+// Fill in fields that projects saved by older versions do not have yet
+export function withProjectDefaults(project: Project): Project {
+  if (!project.status) {
+    project.status = project.files.length > 0 ? 'ready' : 'failed';
+    project.statusUpdatedAt = project.createdAt;
+    if (project.status === 'failed') {
+      project.error = 'Generation did not produce any files';
+    }
+  }
+  return project;
+}
@@ -4,12 +4,53 @@ import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
 import multer from 'multer';
-import { v2 as cloudinary } from 'cloudinary';
 import { createApp } from './agent/createApp.js';
-import { authMiddleware, generateToken, type AuthRequest } from './auth/authMiddleware.js';
-import { userStorage } from './auth/userStorage.js';
+import { createModelProvider } from './agent/modelProvider.js';
+import { getModelSettings, normalizeCourseModelSettings, resolveModelSettings, type ModelSettings } from './agent/modelSettings.js';
+import { activityReportToCsv, buildActivityReport, parseDateRange } from './analytics/activityReport.js';
+import { runLog } from './analytics/runLog.js';
+import type { ActivityReport, RunMode } from './analytics/types.js';
+import { auditLog, parseAuditQuery, type AuditInput } from './audit/auditLog.js';
+import type { AuditAction, AuditEntry } from './audit/types.js';
+import { ACCESS_TOKEN_LIFETIME_MS, authMiddleware, generateToken, readAccessToken, type AuthRequest } from './auth/authMiddleware.js';
+import { sessionStorage, type Session } from './auth/sessionStorage.js';
+import {
+  accountEmailRateLimit, accountTokenRateLimit, generationRateLimit, loginIpRateLimit, loginRateLimit,
+  registrationRateLimit, sessionRefreshRateLimit
+} from './http/rateLimits.js';
+import { sendCsv } from './http/csv.js';
+import { userStorage, type LegacyUser, type User, type UserRole } from './auth/userStorage.js';
+import { bootstrapTokens } from './auth/bootstrapToken.js';
+import { exportRoster, importRoster } from './auth/roster.js';
+import { changeRole, deleteUserWithProjects, isLastAdmin, parseRole } from './auth/userManagement.js';
+import { collectAccountData, writeAccountArchive } from './auth/accountExport.js';
+import { createSecretToken } from './auth/secretTokens.js';
+import {
+  canAccessUser, canManageCourse, canReviewProject, canViewProject, getProjectAccess, getVisibleCourseIds, hasProjectAccess,
+  requireRole, type ProjectAccess
+} from './auth/permissions.js';
+import { courseStorage, normalizeRubric, type Course, type CourseInput } from './courses/courseStorage.js';
+import { buildGradesCsv, getGradeTotal, validateScores } from './feedback/grades.js';
+import { galleryStorage, type Publication } from './gallery/galleryStorage.js';
+import { renderPlaceholderThumbnail } from './gallery/thumbnail.js';
+import { mailer } from './mail/mailer.js';
+import { passwordResetEmail, verificationEmail } from './mail/accountEmails.js';
+import { getMimeType, normalizeFilePath, resolvePreviewFile } from './preview/previewFiles.js';
+import { generationEvents, isTerminalEvent, type StoredGenerationEvent } from './generation/generationEvents.js';
+import { generationQueue, QueueFullError } from './generation/generationQueue.js';
+import { RevisionStorage } from './projects/revisionStorage.js';
+import { diffFileSets } from './projects/diff.js';
+import type { CollaboratorRole, FeedbackComment, Project, ProjectGrade, ProjectStatus, ShareLink } from './projects/types.js';
+import { ArchiveError, readProjectArchive, writeProjectArchive } from './projects/projectArchive.js';
+import { repositories, storageConfig } from './storage/index.js';
+import { normalizeTemplateFiles, templateStorage, type Template, type TemplateInput } from './templates/templateStorage.js';
+import { isCloudinaryConfigured, uploadImage } from './uploads/imageUploads.js';
+import { QuotaExceededError, sumUsage, usageTracker } from './usage/usageTracker.js';
+import { getPeriodBounds } from './usage/quotas.js';
+import { getTokenUsage, type TokenUsage } from './usage/tokenUsage.js';
+import type { UsageSource } from './usage/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,16 +58,19 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Configure Cloudinary
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME || 'demo',
-  api_key: process.env.CLOUDINARY_API_KEY || '',
-  api_secret: process.env.CLOUDINARY_API_SECRET || ''
-});
-
 // Configure multer for memory storage
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Separate instance for project imports so oversized ZIPs are rejected while uploading
+const MAX_ARCHIVE_UPLOAD_MB = 20;
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ARCHIVE_UPLOAD_MB * 1024 * 1024, files: 1 }
+});
+
+// Client IPs for rate limiting come from X-Forwarded-For when running behind a proxy (Railway)
+app.set('trust proxy', Number.parseInt(process.env.TRUST_PROXY || '1', 10));
+
 app.use(cors({ credentials: true, origin: true }));
 // Increase payload limit for file uploads (images can be large when base64 encoded)
 app.use(express.json({ limit: '50mb' }));
@@ -34,58 +78,263 @@ app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 app.use(cookieParser());
 app.use(express.static(path.join(__dirname, '../public')));
 
-const PROJECTS_DIR = path.join(__dirname, '../projects');
+const PROJECTS_DIR = storageConfig.projectsDir;
+
+// Immutable file snapshots of every generate, iterate and restore
+const revisionStorage = new RevisionStorage(path.join(PROJECTS_DIR, 'revisions'));
+await revisionStorage.init();
+
+// Project storage, JSON files or SQLite depending on STORAGE_BACKEND
+const projectRepository = repositories.projects;
+
+// Move a project to a new lifecycle state and persist it together with other changes.
+// Reads the stored project first, so a rename during a long generation is not lost
+// and a project deleted in the meantime is not brought back.
+function setProjectStatus(projectId: string, status: ProjectStatus, changes: Partial<Project> = {}): Project | undefined {
+  const project = projectRepository.findById(projectId);
+  if (!project) return undefined;
 
-// Ensure projects directory exists
-await fs.mkdir(PROJECTS_DIR, { recursive: true });
+  const now = new Date().toISOString();
+  Object.assign(project, changes);
+  project.status = status;
+  project.statusUpdatedAt = now;
 
-interface Project {
-  id: string;
-  name: string;
-  prompt: string;
-  promptHistory?: Array<{ prompt: string; timestamp: string }>; // History of all prompts
-  files: Array<{ path: string; content: string }>;
-  createdAt: string;
-  userId: string;
+  if (status === 'generating') {
+    project.generationStartedAt = now;
+    delete project.generationCompletedAt;
+  }
+  if (status === 'ready' || status === 'failed') {
+    project.generationCompletedAt = now;
+  }
+
+  if (status === 'failed') {
+    project.error = changes.error || 'Unknown error';
+  } else {
+    delete project.error;
+  }
+
+  projectRepository.save(project);
+  return project;
 }
 
-// In-memory project storage (could be replaced with database)
-const projects = new Map<string, Project>();
+// Loads a project for a /api/projects/:id route. Answers with 404 or 403 and
+// returns undefined when the user does not have at least the `required` access.
+function findProjectWithAccess(projectId: string, userId: string, required: ProjectAccess, res: express.Response): Project | undefined {
+  const project = projectRepository.findById(projectId);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return undefined;
+  }
 
-// Load existing projects on startup
-try {
-  const projectFiles = await fs.readdir(PROJECTS_DIR);
-  for (const file of projectFiles) {
-    if (file.endsWith('.json')) {
-      const data = await fs.readFile(path.join(PROJECTS_DIR, file), 'utf-8');
-      const project = JSON.parse(data) as Project;
-      projects.set(project.id, project);
-    }
+  if (!hasProjectAccess(getProjectAccess(userStorage.findById(userId), project), required)) {
+    res.status(403).json({ error: 'Access denied' });
+    return undefined;
+  }
+  return project;
+}
+
+// Answers with 429 and returns false when the user has used up a token quota
+function checkTokenQuota(userId: string, res: express.Response): boolean {
+  const user = userStorage.findById(userId);
+  if (!user) return true;
+
+  try {
+    usageTracker.assertWithinQuota(user);
+    return true;
+  } catch (error) {
+    if (!(error instanceof QuotaExceededError)) throw error;
+    res.status(429).json({
+      error: 'Token quota exceeded',
+      details: error.message,
+      quota: error.quota
+    });
+    return false;
+  }
+}
+
+// Answers with 429 and returns false when the user already has too many runs waiting
+function checkQueueCapacity(userId: string, res: express.Response): boolean {
+  try {
+    generationQueue.assertCanEnqueue(userId);
+    return true;
+  } catch (error) {
+    if (!(error instanceof QueueFullError)) throw error;
+    res.status(429).json({ error: 'Too many queued generations', details: error.message });
+    return false;
+  }
+}
+
+// Books the tokens of one API call on the user who triggered it
+function recordTokenUsage(userId: string, source: UsageSource, projectId: string | undefined, usage: TokenUsage) {
+  const user = userStorage.findById(userId);
+  if (!user) return;
+  usageTracker.record(user, { source, projectId, ...usage });
+}
+
+// Finished runs feed the activity analytics, `startedAt` is missing when a run failed in the queue
+function recordRun(projectId: string, userId: string, mode: RunMode, startedAt: Date | undefined, error?: string) {
+  try {
+    runLog.record(userStorage.findById(userId), { projectId, userId, mode, startedAt, error });
+  } catch (logError) {
+    console.error('Error recording run:', logError);
+  }
+}
+
+// Who did what from where, the actor defaults to the logged-in user.
+// A failure to write the log never fails the request itself.
+function audit(req: express.Request, action: AuditAction, input: Omit<AuditInput, 'ip'> = {}) {
+  try {
+    const actorId = input.actorId ?? (req as AuthRequest).userId;
+    const actorEmail = input.actorEmail ?? (actorId ? userStorage.findById(actorId)?.email : undefined);
+    auditLog.record(action, { ...input, actorId, actorEmail, ip: req.ip });
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+}
+
+// Teachers and admins looking into a student's project, invited collaborators are not logged
+function auditProjectRead(req: express.Request, project: Project, via: string) {
+  const viewerId = (req as AuthRequest).userId;
+  if (project.userId === viewerId || project.collaborators?.some(c => c.userId === viewerId)) return;
+  audit(req, 'project.viewed', { targetType: 'project', targetId: project.id, details: { ownerId: project.userId, via } });
+}
+
+// A run cannot survive a restart, so unfinished runs have failed
+for (const project of projectRepository.findAll()) {
+  if (project.status === 'queued' || project.status === 'generating') {
+    setProjectStatus(project.id, 'failed', { error: 'Generation was interrupted by a server restart' });
   }
-  console.log(`Loaded ${projects.size} existing projects`);
-} catch (error) {
-  console.log('No existing projects found');
+}
+console.log(`Loaded ${projectRepository.findAll().length} existing projects`);
+
+// Students registered before courses were managed carry the course name, turn those into courses
+const users: LegacyUser[] = userStorage.getAllUsers();
+for (const user of users) {
+  if (!user.course) continue;
+
+  const course = courseStorage.findByName(user.course)
+    ?? courseStorage.createCourse({ name: user.course, teacherIds: [] });
+  userStorage.moveToCourse(user.id, course.id);
+  console.log(`Moved ${user.email} to course ${course.name}`);
+}
+
+// Without any admin, print a one-time token for /setup.html so the first one can be created
+if (!userStorage.getAllUsers().some(u => u.role === 'admin') && !bootstrapTokens.hasValidToken()) {
+  const { token, expiresAt } = bootstrapTokens.issue();
+  console.log('🔑 No admin account exists yet. Create one at /setup.html with this one-time token:');
+  console.log(`   ${token}`);
+  console.log(`   (valid until ${expiresAt}, a new one can be created with: npm run create-admin -- --token)`);
+}
+
+// One provider for all runs, courses can change the model and limits
+const modelSettings = getModelSettings();
+const modelProvider = createModelProvider(modelSettings.provider);
+if (modelProvider.name === 'mock') {
+  console.log('⚠️  No AI provider configured, generated apps come from the offline mock provider');
+}
+
+function getUserModelSettings(userId: string): ModelSettings {
+  const user = userStorage.findById(userId);
+  return resolveModelSettings(modelSettings, user?.courseId ? courseStorage.findById(user.courseId) : undefined);
+}
+
+const EMAIL_VERIFICATION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_LIFETIME_MS = 60 * 60 * 1000;
+// When set, accounts cannot log in before their email address is confirmed
+const requireEmailVerification = process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+// Base of the links in mails, APP_URL when the server does not know its public address
+function getAppUrl(req: express.Request): string {
+  return (process.env.APP_URL || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+}
+
+async function sendVerificationEmail(user: User, req: express.Request) {
+  const token = userStorage.issueAccountToken(user.id, 'verifyEmail', EMAIL_VERIFICATION_LIFETIME_MS)!;
+  await mailer.send(verificationEmail(user, `${getAppUrl(req)}/verify-email.html?token=${encodeURIComponent(token)}`));
+}
+
+async function sendPasswordResetEmail(user: User, req: express.Request) {
+  const token = userStorage.issueAccountToken(user.id, 'resetPassword', PASSWORD_RESET_LIFETIME_MS)!;
+  await mailer.send(passwordResetEmail(user, `${getAppUrl(req)}/reset-password.html?token=${encodeURIComponent(token)}`));
+}
+
+// The access token goes into a cookie (for previews and event streams) and the
+// response body, the refresh token only into a cookie limited to the auth routes
+const REFRESH_COOKIE = 'refreshToken';
+const REFRESH_COOKIE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function getSessionClient(req: express.Request) {
+  return { userAgent: req.get('user-agent'), ip: req.ip };
+}
+
+function setAuthCookies(res: express.Response, accessToken: string, refreshToken?: string) {
+  res.cookie('token', accessToken, {
+    httpOnly: true,
+    maxAge: ACCESS_TOKEN_LIFETIME_MS,
+    sameSite: 'lax'
+  });
+  if (!refreshToken) return;
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    httpOnly: true,
+    maxAge: REFRESH_COOKIE_MAX_AGE_MS,
+    sameSite: 'strict',
+    path: '/api/auth'
+  });
+}
+
+function clearAuthCookies(res: express.Response) {
+  res.clearCookie('token');
+  res.clearCookie(REFRESH_COOKIE, { path: '/api/auth' });
+}
+
+// Logs the user in on this device and returns the access token
+function startSession(req: express.Request, res: express.Response, userId: string): string {
+  const { session, refreshToken } = sessionStorage.create(userId, getSessionClient(req));
+  const accessToken = generateToken(userId, session.id);
+  setAuthCookies(res, accessToken, refreshToken);
+  return accessToken;
+}
+
+function describeSession(session: Session, currentSessionId?: string) {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId
+  };
+}
+
+const prunedSessions = sessionStorage.pruneExpired();
+if (prunedSessions > 0) {
+  console.log(`Removed ${prunedSessions} expired session(s)`);
 }
 
 // Auth endpoints
-// Special setup endpoint - creates admin users (allows multiple admin creations)
-app.post('/api/auth/setup-admin', async (req, res) => {
+// Creates an admin account, only with a one-time bootstrap token
+app.post('/api/auth/setup-admin', registrationRateLimit, async (req, res) => {
   try {
-    const { email, password, name } = req.body;
+    const { email, password, name, token: bootstrapToken } = req.body;
 
     if (!email || !password || !name) {
       return res.status(400).json({ error: 'Email, password, and name are required' });
     }
+    if (userStorage.findByEmail(email)) {
+      return res.status(400).json({ error: 'User with this email already exists' });
+    }
 
-    // Create admin user (no restriction on number of admins)
-    const user = await userStorage.createUser(email, password, name, 'admin');
-    const token = generateToken(user.id);
+    // Checked last, so a typo in the form does not use up the token
+    if (typeof bootstrapToken !== 'string' || !bootstrapTokens.consume(bootstrapToken)) {
+      return res.status(403).json({ error: 'Invalid or expired setup token' });
+    }
 
-    res.cookie('token', token, {
-      httpOnly: true,
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-      sameSite: 'lax'
-    });
+    const user = await userStorage.createUser(email, password, name, 'admin');
+    // Whoever has the token has access to the server, no need to confirm the address
+    userStorage.markEmailVerified(user.id);
+    const token = startSession(req, res, user.id);
+    audit(req, 'auth.setup_admin', { actorId: user.id });
 
     res.json({
       success: true,
@@ -105,38 +354,56 @@ app.post('/api/auth/setup-admin', async (req, res) => {
   }
 });
 
-app.post('/api/auth/register', async (req, res) => {
+app.post('/api/auth/register', registrationRateLimit, async (req, res) => {
   try {
-    const { email, password, name, role, course } = req.body;
+    const { email, password, name, inviteCode } = req.body;
 
     if (!email || !password || !name) {
       return res.status(400).json({ error: 'Email, password, and name are required' });
     }
 
-    // Validate course is required for students
-    if (role === 'student' && !course) {
-      return res.status(400).json({ error: 'Course selection is required for students' });
+    // Everyone registers as a student and joins a course with the invite code from their teacher.
+    // Teachers and admins get their role from an admin.
+    if (!inviteCode) {
+      return res.status(400).json({ error: 'An invite code is required' });
+    }
+    const course = courseStorage.findByInviteCode(String(inviteCode));
+    if (!course) {
+      return res.status(400).json({ error: 'Invalid invite code' });
+    }
+    if (!courseStorage.isOpenForRegistration(course)) {
+      return res.status(400).json({ error: `The course ${course.name} has ended` });
     }
 
-    const user = await userStorage.createUser(email, password, name, role || 'student', course);
-    const token = generateToken(user.id);
+    const user = await userStorage.createUser(email, password, name, 'student', course.id);
+    audit(req, 'auth.register', { actorId: user.id, details: { courseId: course.id } });
 
-    res.cookie('token', token, {
-      httpOnly: true,
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-      sameSite: 'lax'
-    });
+    // The account exists either way, the mail can be requested again
+    try {
+      await sendVerificationEmail(user, req);
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+    }
+
+    const publicUser = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      profilePicture: user.profilePicture,
+      role: user.role,
+      course: { id: course.id, name: course.name },
+      emailVerified: false
+    };
+
+    if (requireEmailVerification) {
+      return res.json({ success: true, verificationRequired: true, user: publicUser });
+    }
+
+    const token = startSession(req, res, user.id);
 
     res.json({
       success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        profilePicture: user.profilePicture,
-        role: user.role,
-        course: user.course
-      },
+      user: publicUser,
       token
     });
   } catch (error) {
@@ -147,7 +414,7 @@ app.post('/api/auth/register', async (req, res) => {
   }
 });
 
-app.post('/api/auth/login', async (req, res) => {
+app.post('/api/auth/login', loginIpRateLimit, loginRateLimit, async (req, res) => {
   try {
     const { email, password } = req.body;
 
@@ -157,16 +424,21 @@ app.post('/api/auth/login', async (req, res) => {
 
     const user = await userStorage.verifyPassword(email, password);
     if (!user) {
+      const known = userStorage.findByEmail(String(email));
+      audit(req, 'auth.login_failed', { actorId: known?.id, actorEmail: known ? undefined : String(email).slice(0, 200) });
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
-    const token = generateToken(user.id);
+    if (requireEmailVerification && !user.emailVerifiedAt) {
+      return res.status(403).json({
+        error: 'Email not verified',
+        details: 'Please confirm your email address with the link we sent you.',
+        emailNotVerified: true
+      });
+    }
 
-    res.cookie('token', token, {
-      httpOnly: true,
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-      sameSite: 'lax'
-    });
+    const token = startSession(req, res, user.id);
+    audit(req, 'auth.login', { actorId: user.id });
 
     res.json({
       success: true,
@@ -175,7 +447,8 @@ app.post('/api/auth/login', async (req, res) => {
         email: user.email,
         name: user.name,
         profilePicture: user.profilePicture,
-        role: user.role
+        role: user.role,
+        emailVerified: Boolean(user.emailVerifiedAt)
       },
       token
     });
@@ -185,8 +458,58 @@ app.post('/api/auth/login', async (req, res) => {
   }
 });
 
+// Swaps the refresh cookie for a new access token, the refresh token is replaced as
+// well (except for a second tab refreshing with the same cookie at the same time)
+app.post('/api/auth/refresh', sessionRefreshRateLimit, async (req, res) => {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+  const refreshed = typeof refreshToken === 'string'
+    ? sessionStorage.refresh(refreshToken, getSessionClient(req))
+    : undefined;
+
+  if (!refreshed || !userStorage.findById(refreshed.session.userId)) {
+    clearAuthCookies(res);
+    return res.status(401).json({ error: 'Session expired' });
+  }
+
+  const token = generateToken(refreshed.session.userId, refreshed.session.id);
+  setAuthCookies(res, token, refreshed.refreshToken);
+  res.json({ success: true, token });
+});
+
+// Ends the session of this device, even when its access token has expired
 app.post('/api/auth/logout', (req, res) => {
-  res.clearCookie('token');
+  const accessToken = readAccessToken(req);
+  if (accessToken?.sessionId) {
+    sessionStorage.revoke(accessToken.sessionId);
+    audit(req, 'auth.logout', { actorId: accessToken.userId });
+  }
+  clearAuthCookies(res);
+  res.json({ success: true });
+});
+
+app.post('/api/auth/logout-all', authMiddleware, async (req: AuthRequest, res) => {
+  const revoked = sessionStorage.revokeAll(req.userId!);
+  audit(req, 'auth.logout_all', { details: { revoked } });
+  clearAuthCookies(res);
+  res.json({ success: true, revoked });
+});
+
+app.get('/api/auth/sessions', authMiddleware, async (req: AuthRequest, res) => {
+  const sessions = sessionStorage.getActiveSessions(req.userId!);
+  res.json({ sessions: sessions.map(s => describeSession(s, req.sessionId)) });
+});
+
+app.delete('/api/auth/sessions/:id', authMiddleware, async (req: AuthRequest, res) => {
+  const session = sessionStorage.findActive(req.params.id);
+  if (!session || session.userId !== req.userId) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  sessionStorage.revoke(session.id);
+  audit(req, 'auth.session_revoked', { details: { sessionId: session.id } });
+  if (session.id === req.sessionId) {
+    clearAuthCookies(res);
+  }
   res.json({ success: true });
 });
 
@@ -196,12 +519,15 @@ app.get('/api/auth/me', authMiddleware, async (req: AuthRequest, res) => {
     return res.status(404).json({ error: 'User not found' });
   }
 
+  const course = user.courseId ? courseStorage.findById(user.courseId) : undefined;
   res.json({
     id: user.id,
     email: user.email,
     name: user.name,
     profilePicture: user.profilePicture,
-    role: user.role
+    role: user.role,
+    course: course && { id: course.id, name: course.name },
+    emailVerified: Boolean(user.emailVerifiedAt)
   });
 });
 
@@ -217,6 +543,7 @@ app.patch('/api/auth/profile', authMiddleware, async (req: AuthRequest, res) =>
     if (!updatedUser) {
       return res.status(404).json({ error: 'User not found' });
     }
+    audit(req, 'user.profile_updated', { targetType: 'user', targetId: updatedUser.id, details: { fields: Object.keys(updates) } });
 
     res.json({
       success: true,
@@ -247,6 +574,9 @@ app.patch('/api/auth/password', authMiddleware, async (req: AuthRequest, res) =>
       return res.status(404).json({ error: 'User not found' });
     }
 
+    // Someone who got hold of the old password or a token is logged out, this device stays logged in
+    sessionStorage.revokeAll(req.userId!, req.sessionId);
+    audit(req, 'auth.password_changed');
     res.json({ success: true });
   } catch (error) {
     console.error('Password update error:', error);
@@ -254,47 +584,159 @@ app.patch('/api/auth/password', authMiddleware, async (req: AuthRequest, res) =>
   }
 });
 
+// Personal data export and account deletion, for the user and for admins on request
+async function sendAccountArchive(res: express.Response, user: User) {
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="makeable-data-${new Date().toISOString().slice(0, 10)}.zip"`);
+
+  try {
+    await writeAccountArchive(collectAccountData(user), res);
+  } catch (error) {
+    console.error('Error exporting account data:', error);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+}
+
+async function deleteAccount(user: User): Promise<{ projects: number }> {
+  // Waiting runs would otherwise spend tokens on deleted projects
+  for (const project of projectRepository.findByUserId(user.id)) {
+    if (generationQueue.cancel(project.id, new Error('Project was deleted'))) {
+      generationEvents.publish(project.id, { type: 'failed', error: 'Project was deleted' });
+    }
+  }
+  return deleteUserWithProjects(user, revisionStorage);
+}
+
+app.get('/api/auth/export', authMiddleware, async (req: AuthRequest, res) => {
+  const user = userStorage.findById(req.userId!);
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  audit(req, 'user.exported', { targetType: 'user', targetId: user.id });
+  await sendAccountArchive(res, user);
+});
+
+// Body: { password }, the account is gone for good afterwards
+app.delete('/api/auth/account', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const user = userStorage.findById(req.userId!);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { password } = req.body || {};
+    if (typeof password !== 'string' || !(await userStorage.verifyPassword(user.email, password))) {
+      return res.status(401).json({ error: 'Password is incorrect' });
+    }
+    if (isLastAdmin(user)) {
+      return res.status(409).json({ error: 'The last admin cannot be deleted' });
+    }
+
+    const { projects } = await deleteAccount(user);
+    audit(req, 'user.deleted', { actorEmail: user.email, targetType: 'user', targetId: user.id, details: { projects } });
+    clearAuthCookies(res);
+    res.json({ success: true, projects });
+  } catch (error) {
+    console.error('Account deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete account' });
+  }
+});
+
+// Email verification and password reset, both through one-time links sent by mail.
+// The request endpoints answer the same whether the address exists or not.
+app.post('/api/auth/verify-email', accountTokenRateLimit, async (req, res) => {
+  const { token } = req.body;
+  const user = typeof token === 'string' ? userStorage.consumeAccountToken(token, 'verifyEmail') : undefined;
+  if (!user) {
+    return res.status(400).json({ error: 'This link is invalid or has expired' });
+  }
+
+  userStorage.markEmailVerified(user.id);
+  audit(req, 'auth.email_verified', { actorId: user.id });
+  res.json({ success: true, email: user.email });
+});
+
+app.post('/api/auth/resend-verification', accountEmailRateLimit, async (req, res) => {
+  const { email } = req.body;
+  if (!email) {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+
+  const user = userStorage.findByEmail(String(email));
+  if (user && !user.emailVerifiedAt) {
+    try {
+      await sendVerificationEmail(user, req);
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+    }
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/auth/forgot-password', accountEmailRateLimit, async (req, res) => {
+  const { email } = req.body;
+  if (!email) {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+
+  const user = userStorage.findByEmail(String(email));
+  if (user) {
+    try {
+      await sendPasswordResetEmail(user, req);
+    } catch (error) {
+      console.error('Failed to send password reset email:', error);
+    }
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/auth/reset-password', accountTokenRateLimit, async (req, res) => {
+  try {
+    const { token, newPassword } = req.body;
+    if (!token || !newPassword) {
+      return res.status(400).json({ error: 'Token and new password are required' });
+    }
+
+    const user = userStorage.consumeAccountToken(String(token), 'resetPassword');
+    if (!user) {
+      return res.status(400).json({ error: 'This link is invalid or has expired' });
+    }
+
+    await userStorage.updatePassword(user.id, newPassword);
+    // The link came through the mailbox, which confirms the address as well
+    userStorage.markEmailVerified(user.id);
+    sessionStorage.revokeAll(user.id);
+    audit(req, 'auth.password_reset', { actorId: user.id });
+    res.json({ success: true, email: user.email });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
 // AI Suggestions endpoint - generates contextual improvement suggestions
-app.post('/api/ai-suggestions', authMiddleware, async (req, res) => {
+app.post('/api/ai-suggestions', authMiddleware, generationRateLimit, async (req, res) => {
   try {
-    const { prompt, projectFiles } = req.body;
+    const { prompt, projectFiles, projectId } = req.body;
+    const userId = (req as AuthRequest).userId!;
 
     if (!prompt) {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey || apiKey === 'your_api_key_here') {
-      // Fallback if no API key
-      return res.json({
-        suggestions: {
-          message: `Ich habe deine Anfrage "${prompt}" analysiert.
-
-## 💡 Allgemeine Verbesserungsvorschläge
-
-**Funktionalität:**
-- Füge interaktive Elemente hinzu
-- Implementiere Benutzer-Feedback
-- Erweitere die Kernfunktionen
-
-**Design & UX:**
-- Optimiere für mobile Geräte
-- Verbessere die Ladezeiten
-- Füge visuelle Indikatoren hinzu
-
-Welche dieser Ideen möchtest du umsetzen?`,
-          chips: [
-            'Interaktive Elemente hinzufügen',
-            'Mobile Optimierung',
-            'Performance verbessern',
-            'Benutzer-Feedback einbauen'
-          ]
-        }
-      });
+    // The usage is added to the project's totals, so only for projects the user can see
+    if (projectId !== undefined) {
+      if (typeof projectId !== 'string') {
+        return res.status(400).json({ error: 'Invalid project id' });
+      }
+      if (!findProjectWithAccess(projectId, userId, 'viewer', res)) {
+        return;
+      }
     }
 
-    const Anthropic = (await import('@anthropic-ai/sdk')).default;
-    const client = new Anthropic({ apiKey });
+    if (!checkTokenQuota(userId, res)) {
+      return;
+    }
 
     // Create a context-aware prompt for suggestions with actual file contents
     let contextPrompt = `Der Benutzer hat folgende App erstellt: "${prompt}"`;
@@ -314,9 +756,10 @@ Welche dieser Ideen möchtest du umsetzen?`,
       });
     }
 
-    const response = await client.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
+    const settings = getUserModelSettings(userId);
+    const response = await modelProvider.createMessage({
+      model: settings.model,
+      maxTokens: settings.suggestionsMaxTokens,
       messages: [{
         role: 'user',
         content: `${contextPrompt}
@@ -360,6 +803,8 @@ ANTWORT-FORMAT:
       }]
     });
 
+    recordTokenUsage(userId, 'suggestions', projectId, getTokenUsage(response));
+
     // Parse the AI response
     const textContent = response.content.find(block => block.type === 'text');
     if (!textContent || textContent.type !== 'text') {
@@ -407,12 +852,7 @@ app.post('/api/upload-image', authMiddleware, upload.single('image'), async (req
       return res.status(400).json({ error: 'No image file provided' });
     }
 
-    // Check if Cloudinary is configured
-    const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
-    const apiKey = process.env.CLOUDINARY_API_KEY;
-    const apiSecret = process.env.CLOUDINARY_API_SECRET;
-
-    if (!cloudName || !apiKey || !apiSecret || cloudName === 'demo') {
+    if (!isCloudinaryConfigured()) {
       // Fallback: return base64 data URL if Cloudinary not configured
       const base64 = req.file.buffer.toString('base64');
       const dataUrl = `data:${req.file.mimetype};base64,${base64}`;
@@ -425,26 +865,12 @@ app.post('/api/upload-image', authMiddleware, upload.single('image'), async (req
     }
 
     // Upload to Cloudinary
-    const uploadPromise = new Promise<any>((resolve, reject) => {
-      const uploadStream = cloudinary.uploader.upload_stream(
-        {
-          folder: 'makeable-uploads',
-          resource_type: 'auto'
-        },
-        (error: any, result: any) => {
-          if (error) reject(error);
-          else resolve(result);
-        }
-      );
-      uploadStream.end(req.file!.buffer);
-    });
-
-    const result = await uploadPromise;
+    const result = await uploadImage(req.file.buffer, (req as AuthRequest).userId!);
 
     res.json({
       success: true,
-      url: result.secure_url,
-      publicId: result.public_id
+      url: result.url,
+      publicId: result.publicId
     });
   } catch (error) {
     console.error('Image upload error:', error);
@@ -455,70 +881,201 @@ app.post('/api/upload-image', authMiddleware, upload.single('image'), async (req
   }
 });
 
-// Admin middleware
-const adminMiddleware = async (req: AuthRequest, res: any, next: any) => {
-  const user = userStorage.findById(req.userId!);
-  if (!user || user.role !== 'admin') {
-    return res.status(403).json({ error: 'Admin access required' });
+// Role checks for the dashboard endpoints, teachers only see their own courses
+const adminMiddleware = requireRole('admin');
+const staffMiddleware = requireRole('admin', 'teacher');
+
+// Admin endpoints
+// Users and projects can be narrowed down with ?courseId=
+app.get('/api/admin/users', authMiddleware, staffMiddleware, async (req, res) => {
+  const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+  const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+  const visibleCourseIds = getVisibleCourseIds(viewer);
+  if (courseId && visibleCourseIds && !visibleCourseIds.has(courseId)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+  const courseNames = new Map(courseStorage.getAllCourses().map(c => [c.id, c.name]));
+
+  const users = userStorage.getAllUsers()
+    .filter(u => canAccessUser(viewer, u))
+    .filter(u => !courseId || u.courseId === courseId)
+    .map(u => ({
+      id: u.id,
+      email: u.email,
+      name: u.name,
+      role: u.role,
+      courseId: u.courseId,
+      courseName: u.courseId ? courseNames.get(u.courseId) : undefined,
+      createdAt: u.createdAt,
+      profilePicture: u.profilePicture
+    }));
+  res.json({ users });
+});
+
+// Move a student to another course (courseId null removes the course)
+app.patch('/api/admin/users/:id/course', authMiddleware, adminMiddleware, async (req, res) => {
+  const { courseId } = req.body;
+  if (courseId !== null && (typeof courseId !== 'string' || !courseStorage.findById(courseId))) {
+    return res.status(400).json({ error: 'Unknown course' });
   }
-  next();
-};
 
-// Make user admin (temporary endpoint - remove after first use!)
-app.post('/api/make-admin', async (req, res) => {
-  const { email, secret } = req.body;
+  const previous = userStorage.findById(req.params.id);
+  const user = await userStorage.updateUser(req.params.id, { courseId: courseId ?? undefined });
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  audit(req, 'user.course_changed', { targetType: 'user', targetId: user.id, details: { from: previous?.courseId ?? null, to: courseId ?? null } });
+  res.json({ success: true, user: { id: user.id, name: user.name, courseId: user.courseId } });
+});
 
-  if (secret !== 'make-me-admin-2024') {
-    return res.status(403).json({ error: 'Invalid secret' });
+// Make someone a teacher or admin (or take the role away again)
+app.patch('/api/admin/users/:id/role', authMiddleware, adminMiddleware, async (req, res) => {
+  let role: UserRole;
+  try {
+    role = parseRole(req.body.role);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid role' });
   }
 
-  const user = userStorage.findByEmail(email);
+  const user = userStorage.findById(req.params.id);
   if (!user) {
     return res.status(404).json({ error: 'User not found' });
   }
 
-  await userStorage.updateUser(user.id, { role: 'admin' });
+  // Never lock everybody out of the admin dashboard
+  if (role !== 'admin' && isLastAdmin(user)) {
+    return res.status(409).json({ error: 'The last admin cannot be demoted' });
+  }
 
-  res.json({ success: true, message: `${email} is now an admin!` });
+  const updated = await changeRole(user, role);
+  audit(req, 'user.role_changed', { targetType: 'user', targetId: user.id, details: { from: user.role, to: role } });
+  res.json({ success: true, user: { id: updated.id, name: updated.name, role: updated.role } });
 });
 
-// Admin endpoints
-app.get('/api/admin/users', authMiddleware, adminMiddleware, async (req, res) => {
-  const users = userStorage.getAllUsers().map(u => ({
-    id: u.id,
-    email: u.email,
-    name: u.name,
-    role: u.role,
-    createdAt: u.createdAt,
-    profilePicture: u.profilePicture
-  }));
-  res.json({ users });
+// Register a class at once. Body: { csv, courseId? }, the course applies to
+// students without a course column. Generated passwords are only returned here.
+app.post('/api/admin/users/import', authMiddleware, adminMiddleware, async (req, res) => {
+  const { csv, courseId } = req.body;
+  if (typeof csv !== 'string' || !csv.trim()) {
+    return res.status(400).json({ error: 'csv is required' });
+  }
+  const defaultCourse = courseId ? courseStorage.findById(String(courseId)) : undefined;
+  if (courseId && !defaultCourse) {
+    return res.status(400).json({ error: 'Unknown course' });
+  }
+
+  try {
+    const result = await importRoster(csv, { defaultCourse });
+    audit(req, 'user.imported', {
+      details: { created: result.created.map(u => u.id), skipped: result.skipped.length, courseId: defaultCourse?.id }
+    });
+    res.json(result);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Import failed' });
+  }
+});
+
+// All users as CSV in the import format, ?courseId= narrows it down
+app.get('/api/admin/users.csv', authMiddleware, adminMiddleware, async (req, res) => {
+  const courseId = typeof req.query.courseId === 'string' && req.query.courseId ? req.query.courseId : undefined;
+  const users = userStorage.getAllUsers().filter(u => !courseId || u.courseId === courseId);
+  sendCsv(res, 'users.csv', exportRoster(users, courseStorage.getAllCourses()));
+});
+
+// Sessions of any user, e.g. to lock out a stolen account
+app.get('/api/admin/users/:id/sessions', authMiddleware, adminMiddleware, async (req, res) => {
+  if (!userStorage.findById(req.params.id)) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  const sessions = sessionStorage.getActiveSessions(req.params.id);
+  res.json({ sessions: sessions.map(s => describeSession(s)) });
+});
+
+app.delete('/api/admin/users/:id/sessions', authMiddleware, adminMiddleware, async (req, res) => {
+  if (!userStorage.findById(req.params.id)) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  const revoked = sessionStorage.revokeAll(req.params.id);
+  audit(req, 'user.sessions_revoked', { targetType: 'user', targetId: req.params.id, details: { revoked } });
+  res.json({ success: true, revoked });
+});
+
+// Data export of any user, e.g. for a request that reached the school by mail
+app.get('/api/admin/users/:id/export', authMiddleware, adminMiddleware, async (req, res) => {
+  const user = userStorage.findById(req.params.id);
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  audit(req, 'user.exported', { targetType: 'user', targetId: user.id });
+  await sendAccountArchive(res, user);
+});
+
+app.delete('/api/admin/users/:id', authMiddleware, adminMiddleware, async (req, res) => {
+  try {
+    const user = userStorage.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (isLastAdmin(user)) {
+      return res.status(409).json({ error: 'The last admin cannot be deleted' });
+    }
+
+    const { projects } = await deleteAccount(user);
+    audit(req, 'user.deleted', { targetType: 'user', targetId: user.id, details: { email: user.email, projects } });
+    res.json({ success: true, projects });
+  } catch (error) {
+    console.error('User deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
 });
 
-app.get('/api/admin/projects', authMiddleware, adminMiddleware, async (req, res) => {
-  const allProjects = Array.from(projects.values()).map(p => {
+app.get('/api/admin/projects', authMiddleware, staffMiddleware, async (req, res) => {
+  const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+  const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+  const visibleCourseIds = getVisibleCourseIds(viewer);
+  if (courseId && visibleCourseIds && !visibleCourseIds.has(courseId)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+  const courseNames = new Map(courseStorage.getAllCourses().map(c => [c.id, c.name]));
+
+  const allProjects = projectRepository.findAll().flatMap(p => {
     const user = userStorage.findById(p.userId);
+    if (!canViewProject(viewer, p)) return [];
+    if (courseId && user?.courseId !== courseId) return [];
     return {
       id: p.id,
       name: p.name,
       prompt: p.prompt,
       createdAt: p.createdAt,
+      status: p.status,
+      error: p.error,
+      statusUpdatedAt: p.statusUpdatedAt,
       userId: p.userId,
       userName: user?.name || 'Unknown',
-      userEmail: user?.email || 'Unknown'
+      userEmail: user?.email || 'Unknown',
+      courseId: user?.courseId,
+      courseName: user?.courseId ? courseNames.get(user.courseId) : undefined
     };
   });
   res.json({ projects: allProjects });
 });
 
-app.get('/api/admin/projects/:id', authMiddleware, adminMiddleware, async (req, res) => {
-  const project = projects.get(req.params.id);
+app.get('/api/admin/projects/:id', authMiddleware, staffMiddleware, async (req, res) => {
+  const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+  const project = projectRepository.findById(req.params.id);
   if (!project) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!canViewProject(viewer, project)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+  auditProjectRead(req, project, 'dashboard');
   const user = userStorage.findById(project.userId);
+  // Share link tokens would let staff pass the app around as the owner
+  const { shareLinks, ...details } = project;
   res.json({
-    ...project,
+    ...details,
+    shareLinkCount: shareLinks?.length ?? 0,
     userName: user?.name || 'Unknown',
     userEmail: user?.email || 'Unknown'
   });
@@ -526,11 +1083,12 @@ app.get('/api/admin/projects/:id', authMiddleware, adminMiddleware, async (req,
 
 app.get('/api/admin/stats', authMiddleware, adminMiddleware, async (req, res) => {
   const allUsers = userStorage.getAllUsers();
-  const allProjects = Array.from(projects.values());
+  const allProjects = projectRepository.findAll();
 
   const stats = {
     totalUsers: allUsers.length,
     totalStudents: allUsers.filter(u => u.role === 'student').length,
+    totalTeachers: allUsers.filter(u => u.role === 'teacher').length,
     totalAdmins: allUsers.filter(u => u.role === 'admin').length,
     totalProjects: allProjects.length,
     projectsPerUser: {} as Record<string, number>
@@ -540,21 +1098,387 @@ app.get('/api/admin/stats', authMiddleware, adminMiddleware, async (req, res) =>
     stats.projectsPerUser[p.userId] = (stats.projectsPerUser[p.userId] || 0) + 1;
   });
 
-  res.json(stats);
-});
+  // Token usage of all Anthropic API calls
+  const allUsage = usageTracker.getAllUsage();
+  const startOfDay = getPeriodBounds('day').start.toISOString();
+  const startOfMonth = getPeriodBounds('month').start.toISOString();
 
-// Get all projects
-app.get('/api/projects', authMiddleware, async (req, res) => {
-  const authReq = req as AuthRequest;
-  const userId = authReq.userId;
+  const groupUsage = (key: (record: typeof allUsage[number]) => string | undefined) => {
+    const groups: Record<string, typeof allUsage> = {};
+    for (const record of allUsage) {
+      const group = key(record);
+      if (group) (groups[group] ||= []).push(record);
+    }
+    return Object.fromEntries(Object.entries(groups).map(([group, records]) => [group, sumUsage(records)]));
+  };
 
-  const projectList = Array.from(projects.values())
-    .filter(p => p.userId === userId)
+  const tokenUsage = {
+    today: sumUsage(allUsage.filter(r => r.createdAt >= startOfDay)),
+    thisMonth: sumUsage(allUsage.filter(r => r.createdAt >= startOfMonth)),
+    allTime: sumUsage(allUsage),
+    perUser: groupUsage(r => r.userId),
+    perCourse: groupUsage(r => r.courseId),
+    perSource: groupUsage(r => r.source)
+  };
+
+  res.json({ ...stats, tokenUsage });
+});
+
+// Activity over time of the users and courses the viewer may see, answers
+// with 400 or 403 and returns undefined when the query is not allowed
+function getActivityReport(req: AuthRequest, res: express.Response): ActivityReport | undefined {
+  const viewer = userStorage.findById(req.userId!)!;
+  const courseId = typeof req.query.courseId === 'string' && req.query.courseId ? req.query.courseId : undefined;
+  const visibleCourseIds = getVisibleCourseIds(viewer);
+  if (courseId && visibleCourseIds && !visibleCourseIds.has(courseId)) {
+    res.status(403).json({ error: 'Access denied' });
+    return undefined;
+  }
+
+  let range: ReturnType<typeof parseDateRange>;
+  try {
+    range = parseDateRange(req.query);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid date range' });
+    return undefined;
+  }
+
+  // Teachers see the students of their courses, not the rest of the platform
+  const inScope = (id: string | undefined) => courseId
+    ? id === courseId
+    : visibleCourseIds === undefined || (id !== undefined && visibleCourseIds.has(id));
+
+  return buildActivityReport({
+    from: range.from,
+    to: range.to,
+    users: userStorage.getAllUsers().filter(u => inScope(u.courseId) && canAccessUser(viewer, u)),
+    courses: courseStorage.getAllCourses().filter(c => inScope(c.id)),
+    runs: runLog.getAllRuns().filter(r => r.finishedAt < range.end.toISOString() && inScope(r.courseId))
+  });
+}
+
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD&courseId=, the last 30 days by default
+app.get('/api/admin/analytics', authMiddleware, staffMiddleware, async (req: AuthRequest, res) => {
+  const report = getActivityReport(req, res);
+  if (report) res.json(report);
+});
+
+app.get('/api/admin/analytics.csv', authMiddleware, staffMiddleware, async (req: AuthRequest, res) => {
+  const report = getActivityReport(req, res);
+  if (report) sendCsv(res, `activity-${report.from}-${report.to}.csv`, activityReportToCsv(report));
+});
+
+// Course management
+function describeCourse(course: Course) {
+  const students = userStorage.getAllUsers().filter(u => u.courseId === course.id);
+  const studentIds = new Set(students.map(u => u.id));
+  return {
+    ...course,
+    teachers: course.teacherIds.map(id => {
+      const teacher = userStorage.findById(id);
+      return { id, name: teacher?.name || 'Unknown', email: teacher?.email || 'Unknown' };
+    }),
+    studentCount: students.length,
+    projectCount: projectRepository.findAll().filter(p => studentIds.has(p.userId)).length,
+    registrationOpen: courseStorage.isOpenForRegistration(course)
+  };
+}
+
+// Picks the editable fields from a request body, teachers must have the teacher role
+function parseCourseInput(body: unknown): Partial<CourseInput> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Expected a course object');
+  }
+
+  const fields = body as Record<string, unknown>;
+  const input: Partial<CourseInput> = {};
+  if (fields.name !== undefined) input.name = String(fields.name);
+  if (fields.description !== undefined) input.description = fields.description === null ? undefined : String(fields.description);
+  if (fields.startDate !== undefined) input.startDate = fields.startDate ? String(fields.startDate) : undefined;
+  if (fields.endDate !== undefined) input.endDate = fields.endDate ? String(fields.endDate) : undefined;
+
+  // null removes them; the empty values do the same when the course is saved
+  if (fields.rubric !== undefined) input.rubric = normalizeRubric(fields.rubric) ?? [];
+  if (fields.modelSettings !== undefined) input.modelSettings = normalizeCourseModelSettings(fields.modelSettings) ?? {};
+
+  if (fields.teacherIds !== undefined) {
+    if (!Array.isArray(fields.teacherIds)) {
+      throw new Error('teacherIds must be an array of user ids');
+    }
+    const unknown = fields.teacherIds.filter(id => typeof id !== 'string' || userStorage.findById(id)?.role !== 'teacher');
+    if (unknown.length > 0) {
+      throw new Error(`Not a teacher: ${unknown.join(', ')}`);
+    }
+    input.teacherIds = fields.teacherIds.map(String);
+  }
+  return input;
+}
+
+app.get('/api/admin/courses', authMiddleware, staffMiddleware, async (req, res) => {
+  const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+  const courses = courseStorage.getAllCourses().filter(c => canManageCourse(viewer, c));
+  res.json({ courses: courses.map(describeCourse) });
+});
+
+app.post('/api/admin/courses', authMiddleware, adminMiddleware, async (req, res) => {
+  try {
+    const input = parseCourseInput(req.body);
+    const course = courseStorage.createCourse({ name: '', teacherIds: [], ...input });
+    res.status(201).json({ course: describeCourse(course) });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to create course' });
+  }
+});
+
+app.get('/api/admin/courses/:id', authMiddleware, staffMiddleware, async (req, res) => {
+  const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+  const course = courseStorage.findById(req.params.id);
+  if (!course) {
+    return res.status(404).json({ error: 'Course not found' });
+  }
+  if (!canManageCourse(viewer, course)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+  res.json({ course: describeCourse(course) });
+});
+
+// Teachers can edit their own courses, only admins assign teachers and pick the model
+app.patch('/api/admin/courses/:id', authMiddleware, staffMiddleware, async (req, res) => {
+  try {
+    const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+    const existing = courseStorage.findById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+    if (!canManageCourse(viewer, existing)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const input = parseCourseInput(req.body);
+    if (input.teacherIds !== undefined && viewer.role !== 'admin') {
+      return res.status(403).json({ error: 'Only admins can assign teachers' });
+    }
+    if (input.modelSettings !== undefined && viewer.role !== 'admin') {
+      return res.status(403).json({ error: 'Only admins can change the model settings' });
+    }
+
+    const course = courseStorage.updateCourse(existing.id, input);
+    if (!course) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+    res.json({ course: describeCourse(course) });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update course' });
+  }
+});
+
+// The old code stops working immediately, e.g. after it was shared too widely
+app.post('/api/admin/courses/:id/invite-code', authMiddleware, staffMiddleware, async (req, res) => {
+  const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+  const existing = courseStorage.findById(req.params.id);
+  if (!existing) {
+    return res.status(404).json({ error: 'Course not found' });
+  }
+  if (!canManageCourse(viewer, existing)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+
+  const course = courseStorage.regenerateInviteCode(existing.id)!;
+  res.json({ course: describeCourse(course) });
+});
+
+app.delete('/api/admin/courses/:id', authMiddleware, adminMiddleware, async (req, res) => {
+  const course = courseStorage.findById(req.params.id);
+  if (!course) {
+    return res.status(404).json({ error: 'Course not found' });
+  }
+
+  // Students would silently lose their course, move them first
+  const studentCount = userStorage.getAllUsers().filter(u => u.courseId === course.id).length;
+  if (studentCount > 0) {
+    return res.status(409).json({ error: `The course still has ${studentCount} student(s)` });
+  }
+
+  courseStorage.deleteCourse(course.id);
+  res.json({ success: true, message: 'Course deleted' });
+});
+
+// Templates: everyone picks from them, only admins add and edit their own
+function describeTemplate(template: Template) {
+  const { files, ...rest } = template;
+  return { ...rest, fileCount: files.length };
+}
+
+function parseTemplateInput(body: unknown): Partial<TemplateInput> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Expected a template object');
+  }
+
+  const fields = body as Record<string, unknown>;
+  const input: Partial<TemplateInput> = {};
+  if (fields.name !== undefined) input.name = String(fields.name);
+  if (fields.description !== undefined) input.description = String(fields.description ?? '');
+  if (fields.suggestedPrompt !== undefined) input.suggestedPrompt = String(fields.suggestedPrompt ?? '');
+  if (fields.files !== undefined) input.files = normalizeTemplateFiles(fields.files);
+
+  // Starting from a project is easier than sending all files
+  if (fields.projectId !== undefined) {
+    const project = projectRepository.findById(String(fields.projectId));
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    input.files = project.files;
+  }
+  return input;
+}
+
+app.get('/api/templates', authMiddleware, async (req, res) => {
+  res.json({ templates: templateStorage.getAllTemplates().map(describeTemplate) });
+});
+
+app.get('/api/templates/:id', authMiddleware, async (req, res) => {
+  const template = templateStorage.findById(req.params.id);
+  if (!template) {
+    return res.status(404).json({ error: 'Template not found' });
+  }
+  res.json({ template });
+});
+
+// Body: { name, description?, suggestedPrompt?, files? | projectId? }
+app.post('/api/admin/templates', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const input = parseTemplateInput(req.body);
+    const template = templateStorage.createTemplate({ name: '', description: '', suggestedPrompt: '', files: [], ...input }, req.userId!);
+    res.status(201).json({ template: describeTemplate(template) });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to create template' });
+  }
+});
+
+app.patch('/api/admin/templates/:id', authMiddleware, adminMiddleware, async (req, res) => {
+  try {
+    const template = templateStorage.updateTemplate(req.params.id, parseTemplateInput(req.body));
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    res.json({ template: describeTemplate(template) });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update template' });
+  }
+});
+
+app.delete('/api/admin/templates/:id', authMiddleware, adminMiddleware, async (req, res) => {
+  try {
+    if (!templateStorage.deleteTemplate(req.params.id)) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    res.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to delete template' });
+  }
+});
+
+// Grades of all projects graded in the course, for spreadsheets
+app.get('/api/admin/courses/:id/grades.csv', authMiddleware, staffMiddleware, async (req, res) => {
+  const viewer = userStorage.findById((req as AuthRequest).userId!)!;
+  const course = courseStorage.findById(req.params.id);
+  if (!course) {
+    return res.status(404).json({ error: 'Course not found' });
+  }
+  if (!canManageCourse(viewer, course)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+  if (!course.rubric) {
+    return res.status(409).json({ error: 'The course has no rubric' });
+  }
+
+  const rows = projectRepository.findAll()
+    .filter(p => p.grade?.courseId === course.id)
+    .map(p => {
+      const student = userStorage.findById(p.userId);
+      return {
+        studentName: student?.name || 'Unknown',
+        studentEmail: student?.email || 'Unknown',
+        projectName: p.name,
+        grade: p.grade!,
+        graderName: userStorage.findById(p.grade!.gradedBy)?.name || 'Unknown'
+      };
+    })
+    .sort((a, b) => a.studentName.localeCompare(b.studentName) || a.projectName.localeCompare(b.projectName));
+
+  const fileName = course.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || course.id;
+  sendCsv(res, `grades-${fileName}.csv`, buildGradesCsv(course.rubric, rows));
+});
+
+// Runs that are in progress or waiting, in the order they will start
+app.get('/api/admin/queue', authMiddleware, adminMiddleware, async (req, res) => {
+  const snapshot = generationQueue.getSnapshot();
+  const withNames = <T extends { projectId: string; userId: string }>(job: T) => ({
+    ...job,
+    projectName: projectRepository.findById(job.projectId)?.name || 'Unknown',
+    userName: userStorage.findById(job.userId)?.name || 'Unknown'
+  });
+
+  res.json({
+    limits: snapshot.limits,
+    running: snapshot.running.map(withNames),
+    waiting: snapshot.waiting.map(withNames)
+  });
+});
+
+// Audit log, newest first. Filters: ?action= (e.g. "project.deleted" or "auth"),
+// ?actorId=, ?targetId=, ?from=, ?to= and ?limit= (default 100)
+app.get('/api/admin/audit', authMiddleware, adminMiddleware, async (req, res) => {
+  let entries: AuditEntry[];
+  try {
+    entries = auditLog.query(parseAuditQuery(req.query));
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid filter' });
+  }
+
+  res.json({
+    entries: entries.map(entry => ({
+      ...entry,
+      actorName: entry.actorId ? userStorage.findById(entry.actorId)?.name : undefined
+    }))
+  });
+});
+
+// Token usage and remaining quotas of the current user
+app.get('/api/usage', authMiddleware, async (req, res) => {
+  const user = userStorage.findById((req as AuthRequest).userId!);
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+
+  res.json({
+    today: sumUsage(usageTracker.getUsageSince(getPeriodBounds('day').start, { userId: user.id })),
+    thisMonth: sumUsage(usageTracker.getUsageSince(getPeriodBounds('month').start, { userId: user.id })),
+    quotas: usageTracker.getQuotaStatus(user)
+  });
+});
+
+// Get all projects
+app.get('/api/projects', authMiddleware, async (req, res) => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.userId;
+
+  // Own projects first, then the ones others shared with this user
+  const sharedWithUser = projectRepository.findAll().filter(p => p.collaborators?.some(c => c.userId === userId));
+  const projectList = [...projectRepository.findByUserId(userId!), ...sharedWithUser]
     .map(p => ({
       id: p.id,
       name: p.name,
       prompt: p.prompt,
-      createdAt: p.createdAt
+      createdAt: p.createdAt,
+      status: p.status,
+      error: p.error,
+      statusUpdatedAt: p.statusUpdatedAt,
+      generationStartedAt: p.generationStartedAt,
+      generationCompletedAt: p.generationCompletedAt,
+      queuePosition: p.status === 'queued' ? generationQueue.getPosition(p.id) : undefined,
+      access: p.userId === userId ? 'owner' : p.collaborators!.find(c => c.userId === userId)!.role,
+      ownerName: p.userId === userId ? undefined : userStorage.findById(p.userId)?.name
     }));
   res.json({ projects: projectList });
 });
@@ -564,17 +1488,112 @@ app.get('/api/projects/:id', authMiddleware, async (req, res) => {
   const authReq = req as AuthRequest;
   const userId = authReq.userId;
 
-  const project = projects.get(req.params.id);
-  if (!project) {
-    return res.status(404).json({ error: 'Project not found' });
-  }
+  const project = findProjectWithAccess(req.params.id, userId!, 'viewer', res);
+  if (!project) return;
 
-  // Security: Only allow access to own projects
-  if (project.userId !== userId) {
-    return res.status(403).json({ error: 'Access denied' });
+  auditProjectRead(req, project, 'editor');
+
+  // Share links and collaborators are managed by the owner only, feedback is for the owner too
+  const access = getProjectAccess(userStorage.findById(userId!), project)!;
+  const { shareLinks, collaborators, feedback, grade, ...shared } = project;
+  res.json(access === 'owner' ? { ...project, access } : { ...shared, access });
+});
+
+// Export project as ZIP (?manifest=false leaves out makeable.json)
+app.get('/api/projects/:id/export', authMiddleware, async (req, res) => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.userId;
+
+  // Everyone who may look at the project may download it
+  const project = findProjectWithAccess(req.params.id, userId!, 'viewer', res);
+  if (!project) return;
+  auditProjectRead(req, project, 'export');
+
+  const fileName = project.name
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase() || project.id;
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.zip"`);
+
+  try {
+    await writeProjectArchive(project, res, req.query.manifest !== 'false');
+  } catch (error) {
+    console.error('Error exporting project:', error);
+    // Headers are already sent once streaming started, all we can do is abort
+    res.destroy(error instanceof Error ? error : undefined);
   }
+});
+
+// Import project from an uploaded ZIP (multipart field "archive", optional "name")
+app.post('/api/projects/import', authMiddleware, (req, res, next) => {
+  archiveUpload.single('archive')(req, res, error => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Archive is larger than ${MAX_ARCHIVE_UPLOAD_MB}MB`
+        : error.message;
+      return res.status(400).json({ error: message });
+    }
+    next(error);
+  });
+}, async (req, res) => {
+  try {
+    const authReq = req as AuthRequest;
+    const userId = authReq.userId!;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No archive file provided' });
+    }
+
+    const { files, manifest, skipped } = await readProjectArchive(req.file.buffer);
 
-  res.json(project);
+    const now = new Date().toISOString();
+    const id = `project_${randomUUID()}`;
+    const fallbackName = req.file.originalname.replace(/\.zip$/i, '') || 'Imported App';
+    const name = (typeof req.body.name === 'string' && req.body.name ? req.body.name : manifest?.name || fallbackName).slice(0, 100);
+    const prompt = manifest?.prompt ?? `Imported from ${req.file.originalname}`;
+    const promptHistory = manifest?.promptHistory ?? [];
+
+    const revision = await revisionStorage.append(id, { kind: 'import', prompt, files });
+
+    const project: Project = {
+      id,
+      name,
+      prompt,
+      promptHistory,
+      files,
+      createdAt: now,
+      userId,
+      headRevision: revision.number,
+      status: 'ready',
+      statusUpdatedAt: now
+    };
+    projectRepository.save(project);
+    audit(req, 'project.created', { targetType: 'project', targetId: id, details: { name, source: 'import' } });
+
+    res.json({
+      success: true,
+      project: {
+        id: project.id,
+        name: project.name,
+        files: project.files,
+        status: project.status
+      },
+      skipped
+    });
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing project:', error);
+    res.status(500).json({
+      error: 'Failed to import project',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
 });
 
 // Delete project
@@ -584,7 +1603,7 @@ app.delete('/api/projects/:id', authMiddleware, async (req, res) => {
     const authReq = req as AuthRequest;
     const userId = authReq.userId;
 
-    const project = projects.get(id);
+    const project = projectRepository.findById(id);
 
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
@@ -596,12 +1615,20 @@ app.delete('/api/projects/:id', authMiddleware, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    // Delete from memory
-    projects.delete(id);
+    // A run that is still waiting would otherwise spend tokens on a deleted project
+    if (generationQueue.cancel(id, new Error('Project was deleted'))) {
+      generationEvents.publish(id, { type: 'failed', error: 'Project was deleted' });
+    }
+
+    projectRepository.delete(id);
+    audit(req, 'project.deleted', { targetType: 'project', targetId: id, details: { name: project.name, ownerId: project.userId } });
+    await revisionStorage.deleteAll(id).catch(err => console.error('Error deleting project revisions:', err));
 
-    // Delete from disk
-    const projectPath = path.join(PROJECTS_DIR, `${id}.json`);
-    await fs.unlink(projectPath).catch(err => console.error('Error deleting project file:', err));
+    // A deleted project should not stay public either
+    const publication = galleryStorage.findByProjectId(id);
+    if (publication) {
+      galleryStorage.unpublish(publication.id);
+    }
 
     res.json({ success: true, message: 'Project deleted' });
   } catch (error) {
@@ -611,14 +1638,25 @@ app.delete('/api/projects/:id', authMiddleware, async (req, res) => {
 });
 
 // Create new project
-app.post('/api/generate', authMiddleware, async (req, res) => {
+app.post('/api/generate', authMiddleware, generationRateLimit, async (req, res) => {
   try {
-    const { prompt, projectId, files } = req.body;
+    const { prompt, files, templateId } = req.body;
 
     if (!prompt) {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
+    // Always a new project, existing ones keep their files and change through iterate
+    if (req.body.projectId !== undefined) {
+      return res.status(400).json({ error: 'Use POST /api/projects/:id/iterate to change an existing project' });
+    }
+
+    // The agent adapts the template's files instead of starting from nothing
+    const template = templateId ? templateStorage.findById(templateId) : undefined;
+    if (templateId && !template) {
+      return res.status(400).json({ error: 'Template not found' });
+    }
+
     // Get user info first
     const authReq = req as AuthRequest;
     const userId = authReq.userId;
@@ -627,8 +1665,12 @@ app.post('/api/generate', authMiddleware, async (req, res) => {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
+    if (!checkTokenQuota(userId, res) || !checkQueueCapacity(userId, res)) {
+      return;
+    }
+
     // Create project IMMEDIATELY with empty files
-    const id = projectId || `project_${Date.now()}`;
+    const id = `project_${randomUUID()}`; // Random, two users can start a project in the same millisecond
 
     // Generate a smart project name from the prompt
     function generateProjectName(prompt: string): string {
@@ -656,23 +1698,82 @@ app.post('/api/generate', authMiddleware, async (req, res) => {
 
     const name = generateProjectName(prompt);
 
+    const now = new Date().toISOString();
     const placeholderProject: Project = {
       id,
       name,
       prompt,
-      promptHistory: [{ prompt, timestamp: new Date().toISOString() }],
+      promptHistory: [{ prompt, timestamp: now }],
       files: [],
-      createdAt: new Date().toISOString(),
-      userId
+      createdAt: now,
+      userId,
+      status: 'queued',
+      statusUpdatedAt: now,
+      ...(template ? { templateId: template.id } : {})
     };
 
-    projects.set(id, placeholderProject);
+    // Save placeholder immediately
+    projectRepository.save(placeholderProject);
+    audit(req, 'project.created', {
+      targetType: 'project',
+      targetId: id,
+      details: { name, source: 'generate', ...(template ? { templateId: template.id } : {}) }
+    });
+
+    generationEvents.publish(id, { type: 'started', mode: 'generate', prompt });
+
+    // Generate the app in the background once the queue gets to it
+    const runGeneration = async () => {
+      console.log('Generating app from prompt:', prompt);
+      console.log('Files received:', files ? files.length : 0, 'files');
+      const startedAt = new Date();
+
+      try {
+        setProjectStatus(id, 'generating');
+
+        // A chosen template is the starting point the agent adapts to the prompt
+        const result = await createApp(prompt, template?.files, files, {
+          onEvent: event => generationEvents.publish(id, event),
+          onUsage: usage => recordTokenUsage(userId, 'generate', id, usage),
+          settings: getUserModelSettings(userId),
+          provider: modelProvider
+        });
+
+        const revision = await revisionStorage.append(id, { kind: 'generate', prompt, files: result.files });
+
+        // Update project with generated files
+        setProjectStatus(id, 'ready', {
+          files: result.files,
+          headRevision: revision.number,
+          validation: result.validation
+        });
+
+        console.log('App generation completed for project:', id);
+        recordRun(id, userId, 'generate', startedAt);
+        generationEvents.publish(id, {
+          type: 'completed',
+          files: result.files.map(f => ({ path: f.path, size: f.content.length })),
+          validation: { ok: result.validation.ok, issues: result.validation.issues.length }
+        });
+      } catch (error) {
+        console.error('Error generating app:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        // Keep files and prompt history as they were, only record the failure
+        try {
+          setProjectStatus(id, 'failed', { error: message });
+        } catch (saveError) {
+          console.error('Error saving failed project status:', saveError);
+        }
+        recordRun(id, userId, 'generate', startedAt, message);
+
+        generationEvents.publish(id, { type: 'failed', error: message });
+      }
+    };
 
-    // Save placeholder to disk immediately
-    await fs.writeFile(
-      path.join(PROJECTS_DIR, `${id}.json`),
-      JSON.stringify(placeholderProject, null, 2)
-    );
+    generationQueue.enqueue({ projectId: id, userId, run: runGeneration }).catch(error => {
+      console.error('Generation job error:', error);
+    });
 
     // Send immediate response with project ID
     res.json({
@@ -680,175 +1781,12 @@ app.post('/api/generate', authMiddleware, async (req, res) => {
       project: {
         id: placeholderProject.id,
         name: placeholderProject.name,
-        files: []
+        files: [],
+        status: projectRepository.findById(id)?.status ?? placeholderProject.status
       },
+      queuePosition: generationQueue.getPosition(id),
       message: 'Project created, generating app...'
     });
-
-    // Now generate the app in the background
-    console.log('Generating app from prompt:', prompt);
-    console.log('Files received:', files ? files.length : 0, 'files');
-
-    try {
-      // Check if API key is valid
-      const apiKey = process.env.ANTHROPIC_API_KEY;
-      let result;
-
-      if (!apiKey || apiKey === 'your_api_key_here' || apiKey.trim().length < 20) {
-        console.log('⚠️  No valid API key found, using mock data');
-        // Use mock data if no API key
-        result = {
-          files: [{
-            path: 'index.html',
-            content: `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${name}</title>
-    <style>
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            background: #f9fafb;
-            color: #111827;
-            line-height: 1.6;
-            padding: 2rem;
-            min-height: 100vh;
-        }
-        .container {
-            max-width: 800px;
-            margin: 0 auto;
-            background: white;
-            border-radius: 8px;
-            padding: 2rem;
-            box-shadow: 0 1px 3px rgba(0,0,0,0.1);
-        }
-        h1 {
-            color: #111827;
-            font-size: 2rem;
-            font-weight: 600;
-            margin-bottom: 1rem;
-            border-bottom: 2px solid #e5e7eb;
-            padding-bottom: 0.75rem;
-        }
-        p {
-            color: #6b7280;
-            margin-bottom: 1rem;
-            font-size: 1rem;
-        }
-        .info-box {
-            background: #f3f4f6;
-            border-left: 3px solid #2563eb;
-            padding: 1rem;
-            border-radius: 4px;
-            margin: 1.5rem 0;
-        }
-        .info-box strong {
-            color: #111827;
-            display: block;
-            margin-bottom: 0.5rem;
-        }
-        .note {
-            background: #fef3c7;
-            border-left: 3px solid #f59e0b;
-            padding: 1rem;
-            border-radius: 4px;
-            margin: 1.5rem 0;
-            color: #92400e;
-        }
-        button {
-            background: #2563eb;
-            color: white;
-            border: none;
-            padding: 0.75rem 1.5rem;
-            border-radius: 6px;
-            font-size: 1rem;
-            font-weight: 500;
-            cursor: pointer;
-            transition: background 0.2s;
-            margin-top: 1rem;
-        }
-        button:hover {
-            background: #1d4ed8;
-        }
-        .footer {
-            margin-top: 2rem;
-            padding-top: 1rem;
-            border-top: 1px solid #e5e7eb;
-            color: #9ca3af;
-            font-size: 0.875rem;
-            text-align: center;
-        }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <h1>Professional App Template</h1>
-        <p>This application preview was generated based on your requirements:</p>
-        <div class="info-box">
-            <strong>Your Request:</strong>
-            <p style="margin: 0; color: #374151;">"${prompt}"</p>
-        </div>
-        <div class="note">
-            <strong>⚠️ Configuration Required</strong>
-            <p style="margin: 0;">This is a preview template. To generate fully functional, production-ready applications with AI, please configure your Anthropic API key in the environment settings.</p>
-        </div>
-        <button onclick="alert('Feature activated! In production, this would trigger your app\\'s main functionality.')">Get Started</button>
-        <div class="footer">
-            Generated by Makeable • Professional App Builder
-        </div>
-    </div>
-</body>
-</html>`
-          }]
-        };
-      } else {
-        result = await createApp(prompt, undefined, files);
-      }
-
-      // Update project with generated files
-      const updatedProject: Project = {
-        id,
-        name,
-        prompt,
-        promptHistory: placeholderProject.promptHistory,
-        files: result.files,
-        createdAt: placeholderProject.createdAt,
-        userId
-      };
-
-      projects.set(id, updatedProject);
-
-      // Update on disk
-      await fs.writeFile(
-        path.join(PROJECTS_DIR, `${id}.json`),
-        JSON.stringify(updatedProject, null, 2)
-      );
-
-      console.log('App generation completed for project:', id);
-    } catch (error) {
-      console.error('Error generating app:', error);
-      // If generation fails, create a simple error page
-      const errorProject: Project = {
-        id,
-        name,
-        prompt,
-        files: [{
-          path: 'index.html',
-          content: `<!DOCTYPE html>
-<html><head><title>Error</title><style>body{font-family:sans-serif;padding:2rem;background:#f5f5f5;}</style></head>
-<body><h1>⚠️ Generation Failed</h1><p>Please check your API key and try again.</p></body></html>`
-        }],
-        createdAt: placeholderProject.createdAt,
-        userId
-      };
-      projects.set(id, errorProject);
-      await fs.writeFile(
-        path.join(PROJECTS_DIR, `${id}.json`),
-        JSON.stringify(errorProject, null, 2)
-      );
-    }
   } catch (error) {
     console.error('Error generating app:', error);
     
@@ -879,86 +1817,718 @@ app.post('/api/generate', authMiddleware, async (req, res) => {
   }
 });
 
-// Rename project
-app.patch('/api/projects/:id/rename', authMiddleware, async (req, res) => {
+// List revisions of a project (without file contents)
+app.get('/api/projects/:id/revisions', authMiddleware, async (req, res) => {
   try {
     const authReq = req as AuthRequest;
     const userId = authReq.userId;
-    const { name } = req.body;
-    const projectId = req.params.id;
-
-    const project = projects.get(projectId);
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
-    }
-
-    // Security: Only allow renaming own projects
-    if (project.userId !== userId) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
-
-    project.name = name;
 
-    // Save to disk
-    await fs.writeFile(
-      path.join(PROJECTS_DIR, `${projectId}.json`),
-      JSON.stringify(project, null, 2)
-    );
+    const project = findProjectWithAccess(req.params.id, userId!, 'viewer', res);
+    if (!project) return;
 
-    res.json({ success: true, project: { id: project.id, name: project.name } });
+    const revisions = await revisionStorage.listSummaries(project.id);
+    res.json({ revisions, headRevision: project.headRevision ?? null });
   } catch (error) {
-    console.error('Error renaming project:', error);
-    res.status(500).json({
-      error: 'Failed to rename project',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+    console.error('Error listing revisions:', error);
+    res.status(500).json({ error: 'Failed to list revisions' });
   }
 });
 
-// Update existing project (iterate on it)
-app.post('/api/projects/:id/iterate', authMiddleware, async (req, res) => {
+// Diff two revisions file by file (?from=1&to=3, "to" defaults to the head)
+app.get('/api/projects/:id/revisions/diff', authMiddleware, async (req, res) => {
   try {
     const authReq = req as AuthRequest;
     const userId = authReq.userId;
-    const { prompt, files } = req.body;
-    const projectId = req.params.id;
 
-    const existingProject = projects.get(projectId);
-    if (!existingProject) {
-      return res.status(404).json({ error: 'Project not found' });
+    const project = findProjectWithAccess(req.params.id, userId!, 'viewer', res);
+    if (!project) return;
+
+    const from = Number(req.query.from);
+    const to = req.query.to !== undefined ? Number(req.query.to) : project.headRevision;
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({ error: 'Query parameters "from" and "to" must be revision numbers' });
     }
 
-    // Security: Only allow updating own projects
-    if (existingProject.userId !== userId) {
-      return res.status(403).json({ error: 'Access denied' });
+    const [fromRevision, toRevision] = await Promise.all([
+      revisionStorage.get(project.id, from),
+      revisionStorage.get(project.id, to!)
+    ]);
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ error: 'Revision not found' });
     }
 
-    console.log('Iterating on project:', projectId, 'with prompt:', prompt);
+    res.json({
+      from: fromRevision.number,
+      to: toRevision.number,
+      files: diffFileSets(fromRevision.files, toRevision.files)
+    });
+  } catch (error) {
+    console.error('Error diffing revisions:', error);
+    res.status(500).json({ error: 'Failed to diff revisions' });
+  }
+});
 
-    // Pass existing files and uploaded files to createApp for context-aware updates
-    const result = await createApp(prompt, existingProject.files, files);
+// Get a single revision including its files
+app.get('/api/projects/:id/revisions/:revision', authMiddleware, async (req, res) => {
+  try {
+    const authReq = req as AuthRequest;
+    const userId = authReq.userId;
 
-    // Update project
-    existingProject.files = result.files;
-    existingProject.prompt = `${existingProject.prompt}\n\nIteration: ${prompt}`;
+    const project = findProjectWithAccess(req.params.id, userId!, 'viewer', res);
+    if (!project) return;
 
-    // Save to disk
-    await fs.writeFile(
-      path.join(PROJECTS_DIR, `${projectId}.json`),
-      JSON.stringify(existingProject, null, 2)
-    );
+    const revision = await revisionStorage.get(project.id, Number(req.params.revision));
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
 
-    res.json({
-      success: true,
+    res.json(revision);
+  } catch (error) {
+    console.error('Error loading revision:', error);
+    res.status(500).json({ error: 'Failed to load revision' });
+  }
+});
+
+// Restore an older revision as the new head (history itself is never rewritten)
+app.post('/api/projects/:id/revisions/:revision/restore', authMiddleware, async (req, res) => {
+  try {
+    const authReq = req as AuthRequest;
+    const userId = authReq.userId;
+    const projectId = req.params.id;
+
+    const project = findProjectWithAccess(projectId, userId!, 'editor', res);
+    if (!project) return;
+
+    if (project.status === 'queued' || project.status === 'generating') {
+      return res.status(409).json({ error: 'Project is currently being generated' });
+    }
+
+    const source = await revisionStorage.get(projectId, Number(req.params.revision));
+    if (!source) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const revision = await revisionStorage.append(projectId, {
+      kind: 'restore',
+      prompt: source.prompt,
+      files: source.files,
+      restoredFrom: source.number
+    });
+
+    project.files = revision.files;
+    project.headRevision = revision.number;
+
+    projectRepository.save(project);
+    audit(req, 'project.restored', { targetType: 'project', targetId: projectId, details: { revision: source.number } });
+
+    res.json({
+      success: true,
+      project: {
+        id: project.id,
+        name: project.name,
+        files: project.files,
+        headRevision: project.headRevision
+      },
+      revision: { number: revision.number, restoredFrom: source.number, createdAt: revision.createdAt }
+    });
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    res.status(500).json({
+      error: 'Failed to restore revision',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Stream generation progress as Server-Sent Events
+app.get('/api/projects/:id/events', authMiddleware, (req, res) => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.userId;
+  const projectId = req.params.id;
+
+  const project = findProjectWithAccess(projectId, userId!, 'viewer', res);
+  if (!project) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const send = (stored: StoredGenerationEvent) => {
+    res.write(`id: ${stored.id}\nevent: ${stored.event.type}\ndata: ${JSON.stringify({ ...stored.event, timestamp: stored.timestamp })}\n\n`);
+  };
+
+  // Replay the current run so late subscribers see the whole progress
+  const history = generationEvents.getHistory(projectId);
+  history.forEach(send);
+
+  if (history.length > 0 && isTerminalEvent(history[history.length - 1].event)) {
+    return res.end();
+  }
+
+  const unsubscribe = generationEvents.subscribe(projectId, stored => {
+    send(stored);
+    if (isTerminalEvent(stored.event)) {
+      cleanup();
+      res.end();
+    }
+  });
+
+  // Keep proxies from closing idle connections
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  req.on('close', cleanup);
+});
+
+// Rename project
+app.patch('/api/projects/:id/rename', authMiddleware, async (req, res) => {
+  try {
+    const authReq = req as AuthRequest;
+    const userId = authReq.userId;
+    const { name } = req.body;
+    const projectId = req.params.id;
+
+    const project = findProjectWithAccess(projectId, userId!, 'editor', res);
+    if (!project) return;
+
+    const previousName = project.name;
+    project.name = name;
+
+    projectRepository.save(project);
+    audit(req, 'project.renamed', { targetType: 'project', targetId: projectId, details: { from: previousName, to: name } });
+
+    res.json({ success: true, project: { id: project.id, name: project.name } });
+  } catch (error) {
+    console.error('Error renaming project:', error);
+    res.status(500).json({
+      error: 'Failed to rename project',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const COLLABORATOR_ROLES: CollaboratorRole[] = ['viewer', 'editor'];
+
+function describeCollaborators(project: Project) {
+  return (project.collaborators || []).map(c => {
+    const user = userStorage.findById(c.userId);
+    return { userId: c.userId, name: user?.name || 'Unknown', email: user?.email, role: c.role, addedAt: c.addedAt };
+  });
+}
+
+function describeShareLink(link: ShareLink, project: Project, req: express.Request) {
+  return {
+    id: link.id,
+    url: `${getAppUrl(req)}/shared/${encodeURIComponent(project.id)}/${link.token}/`,
+    createdAt: link.createdAt,
+    expiresAt: link.expiresAt,
+    expired: link.expiresAt !== undefined && Date.parse(link.expiresAt) <= Date.now()
+  };
+}
+
+// Collaborators, managed by the owner. Anyone can leave a project shared with them.
+app.get('/api/projects/:id/collaborators', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'viewer', res);
+  if (!project) return;
+  res.json({ collaborators: describeCollaborators(project) });
+});
+
+app.post('/api/projects/:id/collaborators', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'owner', res);
+  if (!project) return;
+
+  const { email, role = 'viewer' } = req.body;
+  if (!COLLABORATOR_ROLES.includes(role)) {
+    return res.status(400).json({ error: `Role must be one of: ${COLLABORATOR_ROLES.join(', ')}` });
+  }
+  const user = email ? userStorage.findByEmail(String(email)) : undefined;
+  if (!user) {
+    return res.status(404).json({ error: 'No user with this email' });
+  }
+  if (user.id === project.userId) {
+    return res.status(400).json({ error: 'The owner cannot be added as a collaborator' });
+  }
+
+  const collaborators = (project.collaborators || []).filter(c => c.userId !== user.id);
+  collaborators.push({ userId: user.id, role, addedAt: new Date().toISOString() });
+  project.collaborators = collaborators;
+  projectRepository.save(project);
+
+  res.json({ success: true, collaborators: describeCollaborators(project) });
+});
+
+app.delete('/api/projects/:id/collaborators/:userId', authMiddleware, async (req: AuthRequest, res) => {
+  const leaving = req.params.userId === req.userId;
+  const project = findProjectWithAccess(req.params.id, req.userId!, leaving ? 'viewer' : 'owner', res);
+  if (!project) return;
+
+  const collaborators = (project.collaborators || []).filter(c => c.userId !== req.params.userId);
+  if (collaborators.length === (project.collaborators || []).length) {
+    return res.status(404).json({ error: 'Collaborator not found' });
+  }
+  project.collaborators = collaborators;
+  projectRepository.save(project);
+
+  res.json({ success: true, collaborators: describeCollaborators(project) });
+});
+
+// Read-only share links, managed by the owner
+app.get('/api/projects/:id/share-links', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'owner', res);
+  if (!project) return;
+  res.json({ shareLinks: (project.shareLinks || []).map(l => describeShareLink(l, project, req)) });
+});
+
+// Body: { expiresInDays?: number }, without it the link works until it is deleted
+app.post('/api/projects/:id/share-links', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'owner', res);
+  if (!project) return;
+
+  const { expiresInDays } = req.body;
+  if (expiresInDays !== undefined && (typeof expiresInDays !== 'number' || !(expiresInDays > 0))) {
+    return res.status(400).json({ error: 'expiresInDays must be a positive number' });
+  }
+
+  const now = Date.now();
+  const link: ShareLink = {
+    id: randomUUID(),
+    token: createSecretToken(),
+    createdAt: new Date(now).toISOString(),
+    ...(expiresInDays ? { expiresAt: new Date(now + expiresInDays * 24 * 60 * 60 * 1000).toISOString() } : {})
+  };
+  project.shareLinks = [...(project.shareLinks || []), link];
+  projectRepository.save(project);
+
+  res.json({ success: true, shareLink: describeShareLink(link, project, req) });
+});
+
+app.delete('/api/projects/:id/share-links/:linkId', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'owner', res);
+  if (!project) return;
+
+  const shareLinks = (project.shareLinks || []).filter(l => l.id !== req.params.linkId);
+  if (shareLinks.length === (project.shareLinks || []).length) {
+    return res.status(404).json({ error: 'Share link not found' });
+  }
+  project.shareLinks = shareLinks;
+  projectRepository.save(project);
+
+  res.json({ success: true });
+});
+
+// Gallery entry as shown publicly, without the files
+function describePublication(publication: Publication) {
+  const course = publication.courseId ? courseStorage.findById(publication.courseId) : undefined;
+  return {
+    id: publication.id,
+    slug: publication.slug,
+    title: publication.title,
+    description: publication.description,
+    authorName: userStorage.findById(publication.userId)?.name || 'Unknown',
+    courseId: publication.courseId,
+    courseName: course?.name,
+    projectId: publication.projectId, // For forking
+    thumbnailUrl: publication.thumbnailUrl || `/api/gallery/${encodeURIComponent(publication.slug)}/thumbnail.svg`,
+    url: `/gallery/${encodeURIComponent(publication.slug)}/`,
+    featured: publication.featured,
+    publishedAt: publication.publishedAt,
+    updatedAt: publication.updatedAt
+  };
+}
+
+// Publishing, by the owner: the gallery shows a snapshot of the current files
+app.get('/api/projects/:id/publication', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'viewer', res);
+  if (!project) return;
+
+  const publication = galleryStorage.findByProjectId(project.id);
+  res.json({ publication: publication ? describePublication(publication) : null });
+});
+
+// Body: { title?, description?, thumbnailUrl? }, the title defaults to the project name
+app.post('/api/projects/:id/publish', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'owner', res);
+  if (!project) return;
+
+  if (project.status !== 'ready' || project.files.length === 0) {
+    return res.status(409).json({ error: 'Only finished projects can be published' });
+  }
+
+  try {
+    const { title, description, thumbnailUrl } = req.body;
+    const owner = userStorage.findById(project.userId);
+    const publication = galleryStorage.publish(project, owner?.courseId, {
+      title: typeof title === 'string' && title.trim() ? title : project.name,
+      description: typeof description === 'string' ? description : undefined,
+      thumbnailUrl: typeof thumbnailUrl === 'string' && thumbnailUrl ? thumbnailUrl : undefined
+    });
+    res.json({ success: true, publication: describePublication(publication) });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to publish project' });
+  }
+});
+
+app.delete('/api/projects/:id/publish', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findProjectWithAccess(req.params.id, req.userId!, 'owner', res);
+  if (!project) return;
+
+  const publication = galleryStorage.findByProjectId(project.id);
+  if (!publication) {
+    return res.status(404).json({ error: 'Project is not published' });
+  }
+  galleryStorage.unpublish(publication.id);
+  res.json({ success: true });
+});
+
+// Feedback: reviewers comment and grade, the owner reads along. Collaborators
+// do not see it, grades are between the student and the teachers.
+function describeComment(comment: FeedbackComment) {
+  return { ...comment, authorName: userStorage.findById(comment.authorId)?.name || 'Unknown' };
+}
+
+function describeGrade(grade: ProjectGrade) {
+  const course = courseStorage.findById(grade.courseId);
+  const rubric = course?.rubric || [];
+  return {
+    ...grade,
+    courseName: course?.name,
+    rubric,
+    total: getGradeTotal(rubric, grade),
+    gradedByName: userStorage.findById(grade.gradedBy)?.name || 'Unknown'
+  };
+}
+
+// Rubric of the course the project's owner is in, grades are given against it
+function getOwnerCourse(project: Project): Course | undefined {
+  const owner = userStorage.findById(project.userId);
+  return owner?.courseId ? courseStorage.findById(owner.courseId) : undefined;
+}
+
+function findReviewableProject(projectId: string, userId: string, res: express.Response): Project | undefined {
+  const project = projectRepository.findById(projectId);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return undefined;
+  }
+  if (!canReviewProject(userStorage.findById(userId), project)) {
+    res.status(403).json({ error: 'Only teachers of the course can give feedback' });
+    return undefined;
+  }
+  return project;
+}
+
+app.get('/api/projects/:id/feedback', authMiddleware, async (req: AuthRequest, res) => {
+  const project = projectRepository.findById(req.params.id);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const canReview = canReviewProject(userStorage.findById(req.userId!), project);
+  if (project.userId !== req.userId && !canReview) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+
+  res.json({
+    comments: (project.feedback || []).map(describeComment),
+    grade: project.grade ? describeGrade(project.grade) : null,
+    rubric: getOwnerCourse(project)?.rubric || [],
+    canReview
+  });
+});
+
+// Body: { text, revision?, path?, line? }, the revision defaults to the current one
+app.post('/api/projects/:id/feedback', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const project = findReviewableProject(req.params.id, req.userId!, res);
+    if (!project) return;
+
+    const { text, revision, path: filePath, line } = req.body;
+    if (typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ error: 'Comment text is required' });
+    }
+
+    const revisionNumber = revision === undefined ? project.headRevision : Number(revision);
+    let files = project.files;
+    if (revisionNumber !== project.headRevision) {
+      const stored = Number.isInteger(revisionNumber) ? await revisionStorage.get(project.id, revisionNumber!) : undefined;
+      if (!stored) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      files = stored.files;
+    }
+
+    const normalizedPath = filePath === undefined || filePath === '' ? undefined : normalizeFilePath(String(filePath));
+    if (normalizedPath !== undefined && !files.some(f => normalizeFilePath(f.path) === normalizedPath)) {
+      return res.status(400).json({ error: `File "${filePath}" is not part of this revision` });
+    }
+    if (line !== undefined && (normalizedPath === undefined || !Number.isInteger(line) || line < 1)) {
+      return res.status(400).json({ error: 'line must be a positive whole number and needs a path' });
+    }
+
+    const comment: FeedbackComment = {
+      id: randomUUID(),
+      authorId: req.userId!,
+      ...(revisionNumber !== undefined ? { revision: revisionNumber } : {}),
+      ...(normalizedPath ? { path: normalizedPath } : {}),
+      ...(line !== undefined ? { line } : {}),
+      text: text.trim().slice(0, 5000),
+      createdAt: new Date().toISOString()
+    };
+
+    // Read again, a run may have saved the project while the revision was loaded
+    const current = projectRepository.findById(project.id);
+    if (!current) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    current.feedback = [...(current.feedback || []), comment];
+    projectRepository.save(current);
+
+    res.status(201).json({ comment: describeComment(comment) });
+  } catch (error) {
+    console.error('Error adding feedback:', error);
+    res.status(500).json({ error: 'Failed to add feedback' });
+  }
+});
+
+// Authors remove their own comments, admins any
+app.delete('/api/projects/:id/feedback/:commentId', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findReviewableProject(req.params.id, req.userId!, res);
+  if (!project) return;
+
+  const comment = project.feedback?.find(c => c.id === req.params.commentId);
+  if (!comment) {
+    return res.status(404).json({ error: 'Comment not found' });
+  }
+  if (comment.authorId !== req.userId && userStorage.findById(req.userId!)?.role !== 'admin') {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+
+  project.feedback = project.feedback!.filter(c => c.id !== comment.id);
+  projectRepository.save(project);
+  res.json({ success: true });
+});
+
+// Body: { scores: { <criterionId>: points }, comment? }, replaces an earlier grade
+app.put('/api/projects/:id/grade', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findReviewableProject(req.params.id, req.userId!, res);
+  if (!project) return;
+
+  const course = getOwnerCourse(project);
+  if (!course?.rubric) {
+    return res.status(409).json({ error: "The student's course has no rubric" });
+  }
+
+  try {
+    const { comment } = req.body;
+    project.grade = {
+      courseId: course.id,
+      scores: validateScores(course.rubric, req.body.scores),
+      ...(typeof comment === 'string' && comment.trim() ? { comment: comment.trim().slice(0, 5000) } : {}),
+      ...(project.headRevision !== undefined ? { revision: project.headRevision } : {}),
+      gradedBy: req.userId!,
+      gradedAt: new Date().toISOString()
+    };
+    projectRepository.save(project);
+    res.json({ grade: describeGrade(project.grade) });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to save grade' });
+  }
+});
+
+app.delete('/api/projects/:id/grade', authMiddleware, async (req: AuthRequest, res) => {
+  const project = findReviewableProject(req.params.id, req.userId!, res);
+  if (!project) return;
+
+  if (!project.grade) {
+    return res.status(404).json({ error: 'Project is not graded' });
+  }
+  delete project.grade;
+  projectRepository.save(project);
+  res.json({ success: true });
+});
+
+// Fork a project into a new one owned by the caller. Whoever can view the
+// project copies its current files, anyone else only a published snapshot.
+// Body: { name? }, defaults to "<name> (Remix)"
+app.post('/api/projects/:id/fork', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const source = projectRepository.findById(req.params.id);
+    if (!source) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const access = getProjectAccess(userStorage.findById(userId), source);
+    const publication = access ? undefined : galleryStorage.findByProjectId(source.id);
+    if (!access && !publication) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const files = publication ? publication.files : source.files;
+    const sourceRevision = publication ? publication.revision : source.headRevision;
+    if (files.length === 0) {
+      return res.status(409).json({ error: 'Project has no files to fork' });
+    }
+
+    // Prompts sent after publishing do not belong to the published snapshot
+    const promptHistory = (source.promptHistory || [])
+      .filter(entry => !publication || entry.timestamp <= publication.updatedAt);
+
+    const now = new Date().toISOString();
+    const id = `project_${randomUUID()}`;
+    const { name } = req.body || {};
+    const forkName = (typeof name === 'string' && name.trim() ? name.trim() : `${source.name} (Remix)`).slice(0, 100);
+
+    const revision = await revisionStorage.append(id, { kind: 'fork', prompt: source.prompt, files });
+
+    const project: Project = {
+      id,
+      name: forkName,
+      prompt: source.prompt,
+      promptHistory,
+      files: files.map(f => ({ ...f })),
+      createdAt: now,
+      userId,
+      headRevision: revision.number,
+      status: 'ready',
+      statusUpdatedAt: now,
+      forkedFrom: {
+        projectId: source.id,
+        userId: source.userId,
+        name: publication ? publication.title : source.name,
+        ...(sourceRevision !== undefined ? { revision: sourceRevision } : {}),
+        ...(publication ? { publicationId: publication.id } : {}),
+        forkedAt: now
+      }
+    };
+    projectRepository.save(project);
+    audit(req, 'project.created', {
+      targetType: 'project',
+      targetId: id,
+      details: { name: forkName, source: 'fork', forkedFrom: source.id }
+    });
+
+    res.json({
+      success: true,
+      project: {
+        id: project.id,
+        name: project.name,
+        files: project.files,
+        status: project.status,
+        forkedFrom: project.forkedFrom
+      }
+    });
+  } catch (error) {
+    console.error('Error forking project:', error);
+    res.status(500).json({ error: 'Failed to fork project' });
+  }
+});
+
+// Update existing project (iterate on it)
+app.post('/api/projects/:id/iterate', authMiddleware, generationRateLimit, async (req, res) => {
+  let startedAt: Date | undefined;
+  try {
+    const authReq = req as AuthRequest;
+    const userId = authReq.userId;
+    const { prompt, files } = req.body;
+    const projectId = req.params.id;
+
+    // Editors iterate with their own token quota and queue slots
+    const existingProject = findProjectWithAccess(projectId, userId!, 'editor', res);
+    if (!existingProject) return;
+
+    if (existingProject.status === 'queued' || existingProject.status === 'generating') {
+      return res.status(409).json({ error: 'Project is currently being generated' });
+    }
+
+    if (!checkTokenQuota(userId!, res) || !checkQueueCapacity(userId!, res)) {
+      return;
+    }
+
+    console.log('Iterating on project:', projectId, 'with prompt:', prompt);
+
+    setProjectStatus(projectId, 'queued');
+    generationEvents.publish(projectId, { type: 'started', mode: 'iterate', prompt });
+
+    // The request stays open while the run waits in the queue
+    const result = await generationQueue.enqueue({
+      projectId,
+      userId: userId!,
+      run: async () => {
+        startedAt = new Date();
+        setProjectStatus(projectId, 'generating');
+
+        // Make sure the state before this iteration can be restored
+        await revisionStorage.ensureBaseline(projectId, existingProject.files, existingProject.prompt, existingProject.createdAt);
+
+        // Pass existing files and uploaded files to createApp for context-aware updates
+        return createApp(prompt, existingProject.files, files, {
+          onEvent: event => generationEvents.publish(projectId, event),
+          onUsage: usage => recordTokenUsage(userId!, 'iterate', projectId, usage),
+          settings: getUserModelSettings(userId!),
+          provider: modelProvider
+        });
+      }
+    });
+
+    const revision = await revisionStorage.append(projectId, { kind: 'iterate', prompt, files: result.files });
+
+    // Update project
+    const updatedProject = setProjectStatus(projectId, 'ready', {
+      files: result.files,
+      prompt: `${existingProject.prompt}\n\nIteration: ${prompt}`,
+      promptHistory: [
+        ...(existingProject.promptHistory || []),
+        { prompt, timestamp: revision.createdAt }
+      ],
+      headRevision: revision.number,
+      validation: result.validation
+    });
+    if (!updatedProject) {
+      throw new Error('Project was deleted during the update');
+    }
+
+    recordRun(projectId, userId!, 'iterate', startedAt);
+    audit(req, 'project.iterated', { targetType: 'project', targetId: projectId, details: { revision: revision.number } });
+    generationEvents.publish(projectId, {
+      type: 'completed',
+      files: result.files.map(f => ({ path: f.path, size: f.content.length })),
+      validation: { ok: result.validation.ok, issues: result.validation.issues.length }
+    });
+
+    res.json({
+      success: true,
       project: {
-        id: existingProject.id,
-        name: existingProject.name,
-        files: existingProject.files
+        id: updatedProject.id,
+        name: updatedProject.name,
+        files: updatedProject.files,
+        status: updatedProject.status,
+        validation: updatedProject.validation
       },
       message: 'Project updated successfully'
     });
   } catch (error) {
     console.error('Error iterating project:', error);
+
+    // Previous files stay untouched, only the failure is recorded
+    const failedProject = projectRepository.findById(req.params.id);
+    if (failedProject?.status === 'queued' || failedProject?.status === 'generating') {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      try {
+        setProjectStatus(req.params.id, 'failed', { error: message });
+      } catch (saveError) {
+        console.error('Error saving failed project status:', saveError);
+      }
+      recordRun(req.params.id, (req as AuthRequest).userId!, 'iterate', startedAt, message);
+      generationEvents.publish(req.params.id, { type: 'failed', error: message });
+    }
     
     // Handle specific image size errors
     if (error instanceof Error && error.message.includes('image exceeds')) {
@@ -987,6 +2557,165 @@ app.post('/api/projects/:id/iterate', authMiddleware, async (req, res) => {
   }
 });
 
-app.listen(PORT, () => {
-  console.log(`Makeable server running on http://localhost:${PORT}`);
+// Student code is served from the app's origin. The sandbox gives it an opaque
+// origin, so its scripts cannot use the cookies of whoever opens the preview.
+const PREVIEW_CONTENT_SECURITY_POLICY = 'sandbox allow-scripts allow-forms allow-modals allow-popups';
+
+function sendPreviewFile(res: express.Response, project: Pick<Project, 'files'>, requestPath: string) {
+  const file = resolvePreviewFile(project.files, requestPath);
+  if (!file) {
+    return res.status(404).send('File not found');
+  }
+
+  res.setHeader('Content-Type', getMimeType(file.path));
+  res.setHeader('Content-Security-Policy', PREVIEW_CONTENT_SECURITY_POLICY);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(file.content);
+}
+
+// Preview hosting - serves every file of a project so multi-file apps work in the iframe
+app.get('/preview/:projectId', authMiddleware, (req, res, next) => {
+  // Without strict routing this route also matches the URL with the slash
+  if (req.path.endsWith('/')) return next();
+  // Relative URLs (styles.css, app.js) only resolve correctly below a trailing slash
+  res.redirect(`/preview/${encodeURIComponent(req.params.projectId)}/`);
+});
+
+app.get('/preview/:projectId/*', authMiddleware, async (req, res) => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.userId;
+
+  const project = projectRepository.findById(req.params.projectId);
+  if (!project) {
+    return res.status(404).send('Project not found');
+  }
+
+  // Security: Only users with access to the project may preview
+  if (!canViewProject(userStorage.findById(userId!), project)) {
+    return res.status(403).send('Access denied');
+  }
+
+  sendPreviewFile(res, project, (req.params as Record<string, string>)[0] || '');
+});
+
+// Public app behind a share link, no login needed
+app.get('/shared/:projectId/:token', (req, res, next) => {
+  // Without strict routing this route also matches the URL with the slash
+  if (req.path.endsWith('/')) return next();
+  res.redirect(`/shared/${encodeURIComponent(req.params.projectId)}/${encodeURIComponent(req.params.token)}/`);
+});
+
+app.get('/shared/:projectId/:token/*', (req, res) => {
+  const project = projectRepository.findById(req.params.projectId);
+  const link = project?.shareLinks?.find(l => l.token === req.params.token);
+  // Same answer for unknown, revoked and expired links
+  if (!project || !link || (link.expiresAt && Date.parse(link.expiresAt) <= Date.now())) {
+    return res.status(404).send('This link does not exist or has expired');
+  }
+
+  sendPreviewFile(res, project, (req.params as Record<string, string>)[0] || '');
 });
+
+// Public gallery, no login needed. ?courseId= narrows it down to one course.
+app.get('/api/gallery', (req, res) => {
+  const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+  const publications = galleryStorage.list({ courseId });
+
+  // Courses that have entries, for filtering
+  const courseIds = new Set(galleryStorage.list().map(p => p.courseId).filter((id): id is string => !!id));
+  const courses = Array.from(courseIds).flatMap(id => {
+    const course = courseStorage.findById(id);
+    return course ? [{ id: course.id, name: course.name }] : [];
+  });
+
+  res.json({ publications: publications.map(describePublication), courses });
+});
+
+app.get('/api/gallery/:slug', (req, res) => {
+  const publication = galleryStorage.findBySlug(req.params.slug);
+  if (!publication) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  res.json({ publication: describePublication(publication) });
+});
+
+app.get('/api/gallery/:slug/thumbnail.svg', (req, res) => {
+  const publication = galleryStorage.findBySlug(req.params.slug);
+  if (!publication) {
+    return res.status(404).send('Not found');
+  }
+  res.setHeader('Content-Type', 'image/svg+xml');
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.send(renderPlaceholderThumbnail(publication.title, publication.slug));
+});
+
+app.get('/gallery/:slug', (req, res, next) => {
+  // Without strict routing this route also matches the URL with the slash
+  if (req.path.endsWith('/')) return next();
+  res.redirect(`/gallery/${encodeURIComponent(req.params.slug)}/`);
+});
+
+app.get('/gallery/:slug/*', (req, res) => {
+  const publication = galleryStorage.findBySlug(req.params.slug);
+  if (!publication) {
+    return res.status(404).send('Not found');
+  }
+  sendPreviewFile(res, publication, (req.params as Record<string, string>)[0] || '');
+});
+
+// Curating the gallery: admins for all courses, teachers for their own
+function findManageablePublication(req: AuthRequest, res: express.Response): Publication | undefined {
+  const publication = galleryStorage.findById(req.params.id);
+  if (!publication) {
+    res.status(404).json({ error: 'Publication not found' });
+    return undefined;
+  }
+
+  const visibleCourseIds = getVisibleCourseIds(userStorage.findById(req.userId!)!);
+  if (visibleCourseIds && !(publication.courseId && visibleCourseIds.has(publication.courseId))) {
+    res.status(403).json({ error: 'Access denied' });
+    return undefined;
+  }
+  return publication;
+}
+
+app.get('/api/admin/gallery', authMiddleware, staffMiddleware, async (req: AuthRequest, res) => {
+  const visibleCourseIds = getVisibleCourseIds(userStorage.findById(req.userId!)!);
+  const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+
+  const publications = galleryStorage.list({ courseId })
+    .filter(p => !visibleCourseIds || (p.courseId && visibleCourseIds.has(p.courseId)));
+  res.json({
+    publications: publications.map(p => ({ ...describePublication(p), projectId: p.projectId, userId: p.userId }))
+  });
+});
+
+// Body: { featured: boolean }
+app.patch('/api/admin/gallery/:id', authMiddleware, staffMiddleware, async (req: AuthRequest, res) => {
+  const publication = findManageablePublication(req, res);
+  if (!publication) return;
+
+  if (typeof req.body.featured !== 'boolean') {
+    return res.status(400).json({ error: 'featured must be true or false' });
+  }
+  const updated = galleryStorage.setFeatured(publication.id, req.body.featured)!;
+  res.json({ success: true, publication: describePublication(updated) });
+});
+
+app.delete('/api/admin/gallery/:id', authMiddleware, staffMiddleware, async (req: AuthRequest, res) => {
+  const publication = findManageablePublication(req, res);
+  if (!publication) return;
+
+  galleryStorage.unpublish(publication.id);
+  res.json({ success: true });
+});
+
+// Tests import the app and listen on a port of their own
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  app.listen(PORT, () => {
+    console.log(`Makeable server running on http://localhost:${PORT}`);
+  });
+}
+
+export { app };
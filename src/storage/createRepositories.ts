@@ -0,0 +1,62 @@
+import path from 'path';
+import {
+  JsonAuditRepository, JsonCourseRepository, JsonProjectRepository, JsonPublicationRepository, JsonRunRepository,
+  JsonSessionRepository, JsonTemplateRepository, JsonUsageRepository, JsonUserRepository
+} from './jsonRepositories.js';
+import type { Repositories } from './repositories.js';
+
+export type StorageBackend = 'json' | 'sqlite';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  usersDir: string; // JSON backend
+  projectsDir: string; // JSON backend, revisions are kept here for both backends
+  coursesDir: string; // JSON backend
+  publicationsDir: string; // JSON backend
+  templatesDir: string; // JSON backend
+  sessionsDir: string; // JSON backend
+  usageDir: string; // JSON backend, also holds the run log
+  auditDir: string; // JSON backend
+  sqliteFile: string; // SQLite backend
+}
+
+export function getStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const backend = (env.STORAGE_BACKEND || 'json').toLowerCase();
+  if (backend !== 'json' && backend !== 'sqlite') {
+    throw new Error(`Unknown STORAGE_BACKEND "${env.STORAGE_BACKEND}" (expected "json" or "sqlite")`);
+  }
+
+  return {
+    backend,
+    usersDir: env.USERS_DIR || path.join(process.cwd(), 'users'),
+    projectsDir: env.PROJECTS_DIR || path.join(process.cwd(), 'projects'),
+    coursesDir: env.COURSES_DIR || path.join(process.cwd(), 'courses'),
+    publicationsDir: env.PUBLICATIONS_DIR || path.join(process.cwd(), 'publications'),
+    templatesDir: env.TEMPLATES_DIR || path.join(process.cwd(), 'templates'),
+    sessionsDir: env.SESSIONS_DIR || path.join(process.cwd(), 'sessions'),
+    usageDir: env.USAGE_DIR || path.join(process.cwd(), 'usage'),
+    auditDir: env.AUDIT_DIR || path.join(process.cwd(), 'audit'),
+    sqliteFile: env.SQLITE_FILE || path.join(process.cwd(), 'data', 'makeable.db')
+  };
+}
+
+export async function createRepositories(config: StorageConfig): Promise<Repositories> {
+  if (config.backend === 'sqlite') {
+    // Loaded on demand so the native module is only needed when SQLite is used
+    const { openSqliteRepositories } = await import('./sqliteRepositories.js');
+    return openSqliteRepositories(config.sqliteFile);
+  }
+
+  return {
+    users: new JsonUserRepository(config.usersDir),
+    projects: new JsonProjectRepository(config.projectsDir),
+    courses: new JsonCourseRepository(config.coursesDir),
+    publications: new JsonPublicationRepository(config.publicationsDir),
+    templates: new JsonTemplateRepository(config.templatesDir),
+    sessions: new JsonSessionRepository(config.sessionsDir),
+    usage: new JsonUsageRepository(config.usageDir),
+    runs: new JsonRunRepository(config.usageDir),
+    audit: new JsonAuditRepository(config.auditDir),
+    close: () => {}
+  };
+}
@@ -0,0 +1,5 @@
+import { createRepositories, getStorageConfig } from './createRepositories.js';
+
+// Storage used by the server and the CLI scripts, selected by STORAGE_BACKEND
+export const storageConfig = getStorageConfig();
+export const repositories = await createRepositories(storageConfig);
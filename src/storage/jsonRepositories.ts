@@ -0,0 +1,471 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GenerationRun } from '../analytics/types.js';
+import type { AuditEntry, AuditQuery } from '../audit/types.js';
+import type { Session } from '../auth/sessionStorage.js';
+import type { User } from '../auth/userStorage.js';
+import type { Course } from '../courses/courseStorage.js';
+import type { Publication } from '../gallery/galleryStorage.js';
+import { isValidProjectId, withProjectDefaults, type Project } from '../projects/types.js';
+import type { Template } from '../templates/templateStorage.js';
+import type { UsageRecord } from '../usage/types.js';
+import type {
+  AuditRepository, CourseRepository, ProjectRepository, PublicationRepository, RunRepository, SessionRepository,
+  TemplateRepository, UsageRepository, UserRepository
+} from './repositories.js';
+
+// Write to a temp file first so a crash mid-write never leaves a truncated file
+function writeFileAtomic(filePath: string, data: string) {
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, filePath);
+}
+
+// Objects are copied on the way in and out, so callers cannot change stored
+// data without calling save() - the same behaviour the SQLite backend has
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// All users in a single users.json, keyed by id
+export class JsonUserRepository implements UserRepository {
+  private users = new Map<string, User>();
+  private readonly file: string;
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'users.json');
+
+    // Ensure users directory and file exist
+    fs.mkdirSync(dir, { recursive: true });
+    if (!fs.existsSync(this.file)) {
+      fs.writeFileSync(this.file, JSON.stringify({}));
+    }
+
+    this.load();
+  }
+
+  private load() {
+    try {
+      const data = fs.readFileSync(this.file, 'utf-8');
+      this.users = new Map(Object.entries(JSON.parse(data)));
+    } catch (error) {
+      console.error('Error loading users:', error);
+      this.users = new Map();
+    }
+  }
+
+  private persist() {
+    writeFileAtomic(this.file, JSON.stringify(Object.fromEntries(this.users), null, 2));
+  }
+
+  findAll(): User[] {
+    return Array.from(this.users.values()).map(clone);
+  }
+
+  findById(id: string): User | undefined {
+    const user = this.users.get(id);
+    return user && clone(user);
+  }
+
+  findByEmail(email: string): User | undefined {
+    const user = Array.from(this.users.values()).find(u => u.email === email.toLowerCase());
+    return user && clone(user);
+  }
+
+  save(user: User) {
+    this.users.set(user.id, clone(user));
+    this.persist();
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.users.delete(id);
+    if (deleted) this.persist();
+    return deleted;
+  }
+}
+
+// One <id>.json file per project
+export class JsonProjectRepository implements ProjectRepository {
+  private projects = new Map<string, Project>();
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const data = fs.readFileSync(path.join(this.dir, file), 'utf-8');
+        const project = withProjectDefaults(JSON.parse(data) as Project);
+        this.projects.set(project.id, project);
+      } catch (error) {
+        console.error(`Error loading project ${file}:`, error);
+      }
+    }
+  }
+
+  findAll(): Project[] {
+    return Array.from(this.projects.values()).map(clone);
+  }
+
+  findById(id: string): Project | undefined {
+    const project = this.projects.get(id);
+    return project && clone(project);
+  }
+
+  findByUserId(userId: string): Project[] {
+    return Array.from(this.projects.values()).filter(p => p.userId === userId).map(clone);
+  }
+
+  save(project: Project) {
+    if (!isValidProjectId(project.id)) {
+      throw new Error(`Invalid project id "${project.id}"`);
+    }
+    this.projects.set(project.id, clone(project));
+    writeFileAtomic(path.join(this.dir, `${project.id}.json`), JSON.stringify(project, null, 2));
+  }
+
+  delete(id: string): boolean {
+    if (!isValidProjectId(id)) return false;
+    const deleted = this.projects.delete(id);
+    fs.rmSync(path.join(this.dir, `${id}.json`), { force: true });
+    return deleted;
+  }
+}
+
+// All courses in a single courses.json, keyed by id
+export class JsonCourseRepository implements CourseRepository {
+  private courses = new Map<string, Course>();
+  private readonly file: string;
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'courses.json');
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.file)) return;
+    try {
+      const data = fs.readFileSync(this.file, 'utf-8');
+      this.courses = new Map(Object.entries(JSON.parse(data)));
+    } catch (error) {
+      console.error('Error loading courses:', error);
+      this.courses = new Map();
+    }
+  }
+
+  private persist() {
+    writeFileAtomic(this.file, JSON.stringify(Object.fromEntries(this.courses), null, 2));
+  }
+
+  findAll(): Course[] {
+    return Array.from(this.courses.values()).map(clone);
+  }
+
+  findById(id: string): Course | undefined {
+    const course = this.courses.get(id);
+    return course && clone(course);
+  }
+
+  findByInviteCode(code: string): Course | undefined {
+    const course = Array.from(this.courses.values()).find(c => c.inviteCode === code);
+    return course && clone(course);
+  }
+
+  save(course: Course) {
+    this.courses.set(course.id, clone(course));
+    this.persist();
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.courses.delete(id);
+    if (deleted) this.persist();
+    return deleted;
+  }
+}
+
+// One <id>.json file per publication, like projects they carry all files
+export class JsonPublicationRepository implements PublicationRepository {
+  private publications = new Map<string, Publication>();
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const publication = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8')) as Publication;
+        this.publications.set(publication.id, publication);
+      } catch (error) {
+        console.error(`Error loading publication ${file}:`, error);
+      }
+    }
+  }
+
+  findAll(): Publication[] {
+    return Array.from(this.publications.values()).map(clone);
+  }
+
+  findById(id: string): Publication | undefined {
+    const publication = this.publications.get(id);
+    return publication && clone(publication);
+  }
+
+  findBySlug(slug: string): Publication | undefined {
+    const publication = Array.from(this.publications.values()).find(p => p.slug === slug);
+    return publication && clone(publication);
+  }
+
+  findByProjectId(projectId: string): Publication | undefined {
+    const publication = Array.from(this.publications.values()).find(p => p.projectId === projectId);
+    return publication && clone(publication);
+  }
+
+  save(publication: Publication) {
+    this.publications.set(publication.id, clone(publication));
+    writeFileAtomic(path.join(this.dir, `${publication.id}.json`), JSON.stringify(publication, null, 2));
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.publications.delete(id);
+    fs.rmSync(path.join(this.dir, `${id}.json`), { force: true });
+    return deleted;
+  }
+}
+
+// One <id>.json file per template, they carry files like projects
+export class JsonTemplateRepository implements TemplateRepository {
+  private templates = new Map<string, Template>();
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const template = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8')) as Template;
+        this.templates.set(template.id, template);
+      } catch (error) {
+        console.error(`Error loading template ${file}:`, error);
+      }
+    }
+  }
+
+  findAll(): Template[] {
+    return Array.from(this.templates.values()).map(clone);
+  }
+
+  findById(id: string): Template | undefined {
+    const template = this.templates.get(id);
+    return template && clone(template);
+  }
+
+  save(template: Template) {
+    this.templates.set(template.id, clone(template));
+    writeFileAtomic(path.join(this.dir, `${template.id}.json`), JSON.stringify(template, null, 2));
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.templates.delete(id);
+    fs.rmSync(path.join(this.dir, `${id}.json`), { force: true });
+    return deleted;
+  }
+}
+
+// All sessions in a single sessions.json, keyed by id
+export class JsonSessionRepository implements SessionRepository {
+  private sessions = new Map<string, Session>();
+  private readonly file: string;
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'sessions.json');
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.file)) return;
+    try {
+      const data = fs.readFileSync(this.file, 'utf-8');
+      this.sessions = new Map(Object.entries(JSON.parse(data)));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+      this.sessions = new Map();
+    }
+  }
+
+  private persist() {
+    writeFileAtomic(this.file, JSON.stringify(Object.fromEntries(this.sessions), null, 2));
+  }
+
+  findById(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    return session && clone(session);
+  }
+
+  findByUserId(userId: string): Session[] {
+    return Array.from(this.sessions.values()).filter(s => s.userId === userId).map(clone);
+  }
+
+  save(session: Session) {
+    this.sessions.set(session.id, clone(session));
+    this.persist();
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.sessions.delete(id);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  deleteExpiredBefore(time: string): number {
+    let count = 0;
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt < time && this.sessions.delete(id)) count++;
+    }
+    if (count > 0) this.persist();
+    return count;
+  }
+}
+
+// Usage records appended line by line to usage.jsonl, never rewritten
+export class JsonUsageRepository implements UsageRepository {
+  private records: UsageRecord[] = [];
+  private readonly file: string;
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'usage.jsonl');
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.file)) return;
+
+    const lines = fs.readFileSync(this.file, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // A line cut off by a crash, the rest of the log is still valid
+        console.error('Skipping invalid usage record:', line.slice(0, 100));
+      }
+    }
+  }
+
+  add(record: UsageRecord) {
+    this.records.push(clone(record));
+    fs.appendFileSync(this.file, JSON.stringify(record) + '\n');
+  }
+
+  findAll(): UsageRecord[] {
+    return this.records.map(clone);
+  }
+
+  findSince(since: string, filter: { userId?: string; courseId?: string } = {}): UsageRecord[] {
+    return this.records
+      .filter(r => r.createdAt >= since
+        && (filter.userId === undefined || r.userId === filter.userId)
+        && (filter.courseId === undefined || r.courseId === filter.courseId))
+      .map(clone);
+  }
+}
+
+// Runs are appended to runs.jsonl like usage records
+export class JsonRunRepository implements RunRepository {
+  private runs: GenerationRun[] = [];
+  private readonly file: string;
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'runs.jsonl');
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.file)) return;
+
+    const lines = fs.readFileSync(this.file, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.runs.push(JSON.parse(line) as GenerationRun);
+      } catch {
+        console.error('Skipping invalid run record:', line.slice(0, 100));
+      }
+    }
+  }
+
+  add(run: GenerationRun) {
+    this.runs.push(clone(run));
+    fs.appendFileSync(this.file, JSON.stringify(run) + '\n');
+  }
+
+  findAll(): GenerationRun[] {
+    return this.runs.map(clone);
+  }
+
+  findBetween(from: string, to: string): GenerationRun[] {
+    return this.runs.filter(r => r.finishedAt >= from && r.finishedAt < to).map(clone);
+  }
+}
+
+// Audit entries are appended to audit.jsonl like usage records
+export class JsonAuditRepository implements AuditRepository {
+  private entries: AuditEntry[] = [];
+  private readonly file: string;
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'audit.jsonl');
+    fs.mkdirSync(dir, { recursive: true });
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.file)) return;
+
+    const lines = fs.readFileSync(this.file, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        console.error('Skipping invalid audit entry:', line.slice(0, 100));
+      }
+    }
+  }
+
+  add(entry: AuditEntry) {
+    this.entries.push(clone(entry));
+    fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+  }
+
+  findAll(): AuditEntry[] {
+    return this.entries.map(clone);
+  }
+
+  find(query: AuditQuery): AuditEntry[] {
+    const matches: AuditEntry[] = [];
+    // Entries are appended in order, so walking backwards yields the newest first
+    for (let i = this.entries.length - 1; i >= 0 && matches.length < query.limit; i--) {
+      const e = this.entries[i];
+      if (query.action !== undefined && e.action !== query.action && !e.action.startsWith(`${query.action}.`)) continue;
+      if (query.actorId !== undefined && e.actorId !== query.actorId) continue;
+      if (query.targetId !== undefined && e.targetId !== query.targetId) continue;
+      if (query.from !== undefined && e.createdAt < query.from) continue;
+      if (query.to !== undefined && e.createdAt >= query.to) continue;
+      matches.push(clone(e));
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,98 @@
+import type { GenerationRun } from '../analytics/types.js';
+import type { AuditEntry, AuditQuery } from '../audit/types.js';
+import type { Session } from '../auth/sessionStorage.js';
+import type { User } from '../auth/userStorage.js';
+import type { Course } from '../courses/courseStorage.js';
+import type { Publication } from '../gallery/galleryStorage.js';
+import type { Project } from '../projects/types.js';
+import type { Template } from '../templates/templateStorage.js';
+import type { UsageRecord } from '../usage/types.js';
+
+// Persistence contracts shared by all storage backends.
+// Methods are synchronous: the JSON backend serves reads from memory and
+// better-sqlite3 is a synchronous driver, so callers never need to await reads.
+
+export interface UserRepository {
+  findAll(): User[];
+  findById(id: string): User | undefined;
+  findByEmail(email: string): User | undefined; // email is compared lowercased
+  save(user: User): void; // Insert or replace
+  delete(id: string): boolean;
+}
+
+export interface ProjectRepository {
+  findAll(): Project[];
+  findById(id: string): Project | undefined;
+  findByUserId(userId: string): Project[];
+  save(project: Project): void; // Insert or replace, throws for ids that do not match isValidProjectId()
+  delete(id: string): boolean;
+}
+
+export interface CourseRepository {
+  findAll(): Course[];
+  findById(id: string): Course | undefined;
+  findByInviteCode(code: string): Course | undefined; // Codes are stored uppercase
+  save(course: Course): void; // Insert or replace
+  delete(id: string): boolean;
+}
+
+export interface PublicationRepository {
+  findAll(): Publication[];
+  findById(id: string): Publication | undefined;
+  findBySlug(slug: string): Publication | undefined;
+  findByProjectId(projectId: string): Publication | undefined; // A project is published at most once
+  save(publication: Publication): void; // Insert or replace
+  delete(id: string): boolean;
+}
+
+// Templates added by admins, the built-in ones are not stored
+export interface TemplateRepository {
+  findAll(): Template[];
+  findById(id: string): Template | undefined;
+  save(template: Template): void; // Insert or replace
+  delete(id: string): boolean;
+}
+
+export interface SessionRepository {
+  findById(id: string): Session | undefined;
+  findByUserId(userId: string): Session[];
+  save(session: Session): void; // Insert or replace
+  delete(id: string): boolean;
+  deleteExpiredBefore(time: string): number; // Removes sessions that expired before `time` (ISO timestamp)
+}
+
+// Append-only log of API token usage
+export interface UsageRepository {
+  add(record: UsageRecord): void;
+  findAll(): UsageRecord[];
+  // Records created at or after `since` (ISO timestamp), optionally for one user or course
+  findSince(since: string, filter?: { userId?: string; courseId?: string }): UsageRecord[];
+}
+
+// Append-only log of finished generate/iterate runs
+export interface RunRepository {
+  add(run: GenerationRun): void;
+  findAll(): GenerationRun[];
+  // Runs finished at or after `from` and before `to` (ISO timestamps)
+  findBetween(from: string, to: string): GenerationRun[];
+}
+
+// Append-only audit log
+export interface AuditRepository {
+  add(entry: AuditEntry): void;
+  findAll(): AuditEntry[];
+  find(query: AuditQuery): AuditEntry[]; // Newest first, at most `query.limit` entries
+}
+
+export interface Repositories {
+  users: UserRepository;
+  projects: ProjectRepository;
+  courses: CourseRepository;
+  publications: PublicationRepository;
+  templates: TemplateRepository;
+  sessions: SessionRepository;
+  usage: UsageRepository;
+  runs: RunRepository;
+  audit: AuditRepository;
+  close(): void;
+}
@@ -0,0 +1,464 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import type { GenerationRun } from '../analytics/types.js';
+import type { AuditEntry, AuditQuery } from '../audit/types.js';
+import type { Session } from '../auth/sessionStorage.js';
+import type { User } from '../auth/userStorage.js';
+import type { Course } from '../courses/courseStorage.js';
+import type { Publication } from '../gallery/galleryStorage.js';
+import { isValidProjectId, withProjectDefaults, type Project } from '../projects/types.js';
+import type { Template } from '../templates/templateStorage.js';
+import type { UsageRecord } from '../usage/types.js';
+import type {
+  AuditRepository, CourseRepository, ProjectRepository, PublicationRepository, Repositories, RunRepository,
+  SessionRepository, TemplateRepository, UsageRepository, UserRepository
+} from './repositories.js';
+
+// Columns that are queried are stored separately, the full record lives in
+// "data" as JSON so new fields do not need a schema migration
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL,
+    course TEXT, -- course id
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS projects_user_id ON projects (user_id);
+
+  CREATE TABLE IF NOT EXISTS courses (
+    id TEXT PRIMARY KEY,
+    invite_code TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS publications (
+    id TEXT PRIMARY KEY,
+    slug TEXT NOT NULL UNIQUE,
+    project_id TEXT NOT NULL UNIQUE,
+    published_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS templates (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS sessions_user_id ON sessions (user_id);
+
+  CREATE TABLE IF NOT EXISTS usage (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    course_id TEXT,
+    project_id TEXT,
+    source TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS usage_created_at ON usage (created_at);
+  CREATE INDEX IF NOT EXISTS usage_user_id ON usage (user_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    finished_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS runs_finished_at ON runs (finished_at);
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    action TEXT NOT NULL,
+    actor_id TEXT,
+    target_id TEXT,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS audit_log_created_at ON audit_log (created_at);
+  CREATE INDEX IF NOT EXISTS audit_log_actor_id ON audit_log (actor_id, created_at);
+  CREATE INDEX IF NOT EXISTS audit_log_target_id ON audit_log (target_id, created_at);
+`;
+
+type Row = { data: string };
+
+export class SqliteUserRepository implements UserRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  findAll(): User[] {
+    const rows = this.db.prepare('SELECT data FROM users ORDER BY created_at').all() as Row[];
+    return rows.map(row => JSON.parse(row.data) as User);
+  }
+
+  findById(id: string): User | undefined {
+    const row = this.db.prepare('SELECT data FROM users WHERE id = ?').get(id) as Row | undefined;
+    return row && (JSON.parse(row.data) as User);
+  }
+
+  findByEmail(email: string): User | undefined {
+    const row = this.db.prepare('SELECT data FROM users WHERE email = ?').get(email.toLowerCase()) as Row | undefined;
+    return row && (JSON.parse(row.data) as User);
+  }
+
+  save(user: User) {
+    this.db.prepare(`
+      INSERT INTO users (id, email, role, course, created_at, data)
+      VALUES (@id, @email, @role, @course, @createdAt, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        email = excluded.email, role = excluded.role, course = excluded.course, data = excluded.data
+    `).run({
+      id: user.id,
+      email: user.email.toLowerCase(),
+      role: user.role,
+      course: user.courseId ?? null,
+      createdAt: user.createdAt,
+      data: JSON.stringify(user)
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+export class SqliteProjectRepository implements ProjectRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  findAll(): Project[] {
+    const rows = this.db.prepare('SELECT data FROM projects ORDER BY created_at').all() as Row[];
+    return rows.map(row => withProjectDefaults(JSON.parse(row.data)));
+  }
+
+  findById(id: string): Project | undefined {
+    const row = this.db.prepare('SELECT data FROM projects WHERE id = ?').get(id) as Row | undefined;
+    return row && withProjectDefaults(JSON.parse(row.data));
+  }
+
+  findByUserId(userId: string): Project[] {
+    const rows = this.db.prepare('SELECT data FROM projects WHERE user_id = ? ORDER BY created_at').all(userId) as Row[];
+    return rows.map(row => withProjectDefaults(JSON.parse(row.data)));
+  }
+
+  save(project: Project) {
+    // Revisions are still stored as <id>.json files with this backend
+    if (!isValidProjectId(project.id)) {
+      throw new Error(`Invalid project id "${project.id}"`);
+    }
+    this.db.prepare(`
+      INSERT INTO projects (id, user_id, created_at, data)
+      VALUES (@id, @userId, @createdAt, @data)
+      ON CONFLICT (id) DO UPDATE SET user_id = excluded.user_id, data = excluded.data
+    `).run({
+      id: project.id,
+      userId: project.userId,
+      createdAt: project.createdAt,
+      data: JSON.stringify(project)
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM projects WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+export class SqliteCourseRepository implements CourseRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  findAll(): Course[] {
+    const rows = this.db.prepare('SELECT data FROM courses ORDER BY created_at').all() as Row[];
+    return rows.map(row => JSON.parse(row.data) as Course);
+  }
+
+  findById(id: string): Course | undefined {
+    const row = this.db.prepare('SELECT data FROM courses WHERE id = ?').get(id) as Row | undefined;
+    return row && (JSON.parse(row.data) as Course);
+  }
+
+  findByInviteCode(code: string): Course | undefined {
+    const row = this.db.prepare('SELECT data FROM courses WHERE invite_code = ?').get(code) as Row | undefined;
+    return row && (JSON.parse(row.data) as Course);
+  }
+
+  save(course: Course) {
+    this.db.prepare(`
+      INSERT INTO courses (id, invite_code, created_at, data)
+      VALUES (@id, @inviteCode, @createdAt, @data)
+      ON CONFLICT (id) DO UPDATE SET invite_code = excluded.invite_code, data = excluded.data
+    `).run({
+      id: course.id,
+      inviteCode: course.inviteCode,
+      createdAt: course.createdAt,
+      data: JSON.stringify(course)
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM courses WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+export class SqlitePublicationRepository implements PublicationRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  findAll(): Publication[] {
+    const rows = this.db.prepare('SELECT data FROM publications ORDER BY published_at').all() as Row[];
+    return rows.map(row => JSON.parse(row.data) as Publication);
+  }
+
+  findById(id: string): Publication | undefined {
+    const row = this.db.prepare('SELECT data FROM publications WHERE id = ?').get(id) as Row | undefined;
+    return row && (JSON.parse(row.data) as Publication);
+  }
+
+  findBySlug(slug: string): Publication | undefined {
+    const row = this.db.prepare('SELECT data FROM publications WHERE slug = ?').get(slug) as Row | undefined;
+    return row && (JSON.parse(row.data) as Publication);
+  }
+
+  findByProjectId(projectId: string): Publication | undefined {
+    const row = this.db.prepare('SELECT data FROM publications WHERE project_id = ?').get(projectId) as Row | undefined;
+    return row && (JSON.parse(row.data) as Publication);
+  }
+
+  save(publication: Publication) {
+    this.db.prepare(`
+      INSERT INTO publications (id, slug, project_id, published_at, data)
+      VALUES (@id, @slug, @projectId, @publishedAt, @data)
+      ON CONFLICT (id) DO UPDATE SET slug = excluded.slug, data = excluded.data
+    `).run({
+      id: publication.id,
+      slug: publication.slug,
+      projectId: publication.projectId,
+      publishedAt: publication.publishedAt,
+      data: JSON.stringify(publication)
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM publications WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+export class SqliteTemplateRepository implements TemplateRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  findAll(): Template[] {
+    const rows = this.db.prepare('SELECT data FROM templates ORDER BY created_at').all() as Row[];
+    return rows.map(row => JSON.parse(row.data) as Template);
+  }
+
+  findById(id: string): Template | undefined {
+    const row = this.db.prepare('SELECT data FROM templates WHERE id = ?').get(id) as Row | undefined;
+    return row && (JSON.parse(row.data) as Template);
+  }
+
+  save(template: Template) {
+    this.db.prepare(`
+      INSERT INTO templates (id, created_at, data)
+      VALUES (@id, @createdAt, @data)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run({
+      id: template.id,
+      createdAt: template.createdAt,
+      data: JSON.stringify(template)
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM templates WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+export class SqliteSessionRepository implements SessionRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  findById(id: string): Session | undefined {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(id) as Row | undefined;
+    return row && (JSON.parse(row.data) as Session);
+  }
+
+  findByUserId(userId: string): Session[] {
+    const rows = this.db.prepare('SELECT data FROM sessions WHERE user_id = ?').all(userId) as Row[];
+    return rows.map(row => JSON.parse(row.data) as Session);
+  }
+
+  save(session: Session) {
+    this.db.prepare(`
+      INSERT INTO sessions (id, user_id, expires_at, data)
+      VALUES (@id, @userId, @expiresAt, @data)
+      ON CONFLICT (id) DO UPDATE SET expires_at = excluded.expires_at, data = excluded.data
+    `).run({
+      id: session.id,
+      userId: session.userId,
+      expiresAt: session.expiresAt,
+      data: JSON.stringify(session)
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+  }
+
+  deleteExpiredBefore(time: string): number {
+    return this.db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(time).changes;
+  }
+}
+
+type UsageRow = {
+  id: string;
+  user_id: string;
+  course_id: string | null;
+  project_id: string | null;
+  source: UsageRecord['source'];
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  created_at: string;
+};
+
+// Usage rows are only ever aggregated, so every field is a real column
+function toUsageRecord(row: UsageRow): UsageRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    ...(row.course_id !== null ? { courseId: row.course_id } : {}),
+    ...(row.project_id !== null ? { projectId: row.project_id } : {}),
+    source: row.source,
+    model: row.model,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    createdAt: row.created_at
+  };
+}
+
+export class SqliteUsageRepository implements UsageRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  add(record: UsageRecord) {
+    this.db.prepare(`
+      INSERT INTO usage (id, user_id, course_id, project_id, source, model, input_tokens, output_tokens, created_at)
+      VALUES (@id, @userId, @courseId, @projectId, @source, @model, @inputTokens, @outputTokens, @createdAt)
+    `).run({
+      ...record,
+      courseId: record.courseId ?? null,
+      projectId: record.projectId ?? null
+    });
+  }
+
+  findAll(): UsageRecord[] {
+    const rows = this.db.prepare('SELECT * FROM usage ORDER BY created_at').all() as UsageRow[];
+    return rows.map(toUsageRecord);
+  }
+
+  findSince(since: string, filter: { userId?: string; courseId?: string } = {}): UsageRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM usage
+      WHERE created_at >= @since
+        AND (@userId IS NULL OR user_id = @userId)
+        AND (@courseId IS NULL OR course_id = @courseId)
+      ORDER BY created_at
+    `).all({ since, userId: filter.userId ?? null, courseId: filter.courseId ?? null }) as UsageRow[];
+    return rows.map(toUsageRecord);
+  }
+}
+
+export class SqliteRunRepository implements RunRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  add(run: GenerationRun) {
+    this.db.prepare('INSERT INTO runs (id, finished_at, data) VALUES (?, ?, ?)').run(run.id, run.finishedAt, JSON.stringify(run));
+  }
+
+  findAll(): GenerationRun[] {
+    const rows = this.db.prepare('SELECT data FROM runs ORDER BY finished_at').all() as Row[];
+    return rows.map(row => JSON.parse(row.data) as GenerationRun);
+  }
+
+  findBetween(from: string, to: string): GenerationRun[] {
+    const rows = this.db.prepare('SELECT data FROM runs WHERE finished_at >= ? AND finished_at < ? ORDER BY finished_at')
+      .all(from, to) as Row[];
+    return rows.map(row => JSON.parse(row.data) as GenerationRun);
+  }
+}
+
+export class SqliteAuditRepository implements AuditRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  add(entry: AuditEntry) {
+    this.db.prepare('INSERT INTO audit_log (id, action, actor_id, target_id, created_at, data) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(entry.id, entry.action, entry.actorId ?? null, entry.targetId ?? null, entry.createdAt, JSON.stringify(entry));
+  }
+
+  findAll(): AuditEntry[] {
+    const rows = this.db.prepare('SELECT data FROM audit_log ORDER BY created_at').all() as Row[];
+    return rows.map(row => JSON.parse(row.data) as AuditEntry);
+  }
+
+  find(query: AuditQuery): AuditEntry[] {
+    // rowid breaks ties between entries of the same millisecond
+    const rows = this.db.prepare(`
+      SELECT data FROM audit_log
+      WHERE (@action IS NULL OR action = @action OR substr(action, 1, length(@action) + 1) = @action || '.')
+        AND (@actorId IS NULL OR actor_id = @actorId)
+        AND (@targetId IS NULL OR target_id = @targetId)
+        AND (@from IS NULL OR created_at >= @from)
+        AND (@to IS NULL OR created_at < @to)
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT @limit
+    `).all({
+      action: query.action ?? null,
+      actorId: query.actorId ?? null,
+      targetId: query.targetId ?? null,
+      from: query.from ?? null,
+      to: query.to ?? null,
+      limit: query.limit
+    }) as Row[];
+    return rows.map(row => JSON.parse(row.data) as AuditEntry);
+  }
+}
+
+export function openSqliteRepositories(file: string): Repositories {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file);
+  // WAL lets several processes read while one writes
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  db.exec(SCHEMA);
+
+  return {
+    users: new SqliteUserRepository(db),
+    projects: new SqliteProjectRepository(db),
+    courses: new SqliteCourseRepository(db),
+    publications: new SqlitePublicationRepository(db),
+    templates: new SqliteTemplateRepository(db),
+    sessions: new SqliteSessionRepository(db),
+    usage: new SqliteUsageRepository(db),
+    runs: new SqliteRunRepository(db),
+    audit: new SqliteAuditRepository(db),
+    close: () => db.close()
+  };
+}
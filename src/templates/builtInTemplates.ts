@@ -0,0 +1,264 @@
+import type { Template } from './templateStorage.js';
+
+// Templates shipped with the server. They follow the design guidelines the
+// agent gets for new apps, so iterating on them keeps a consistent look.
+
+const BASE_STYLE = `
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background: #f9fafb;
+            color: #111827;
+            line-height: 1.6;
+            font-size: 16px;
+        }
+        button {
+            background: #2563eb;
+            color: white;
+            border: none;
+            padding: 0.75rem 1.5rem;
+            border-radius: 6px;
+            font-size: 1rem;
+            font-weight: 500;
+            cursor: pointer;
+            transition: background 0.2s;
+        }
+        button:hover { background: #1d4ed8; }
+        .card {
+            background: white;
+            border-radius: 8px;
+            padding: 1.5rem;
+            box-shadow: 0 1px 3px rgba(0,0,0,0.1);
+        }`;
+
+function page(title: string, style: string, body: string, script = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>${BASE_STYLE}
+${style}
+    </style>
+</head>
+<body>
+${body}${script ? `
+    <script>
+${script}
+    </script>` : ''}
+</body>
+</html>
+`;
+}
+
+const dashboard = page('Dashboard', `
+        .layout { display: grid; grid-template-columns: 220px 1fr; min-height: 100vh; }
+        nav { background: #111827; color: #f9fafb; padding: 1.5rem 1rem; }
+        nav h1 { font-size: 1.25rem; margin-bottom: 1.5rem; }
+        nav a { display: block; color: #d1d5db; text-decoration: none; padding: 0.5rem; border-radius: 6px; }
+        nav a.active, nav a:hover { background: #1f2937; color: white; }
+        main { padding: 2rem; }
+        .stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 1rem; margin: 1.5rem 0; }
+        .stat-value { font-size: 2rem; font-weight: 600; }
+        .stat-label { color: #6b7280; font-size: 0.875rem; }
+        .bars { display: flex; align-items: flex-end; gap: 0.5rem; height: 160px; margin-top: 1rem; }
+        .bar { flex: 1; background: #2563eb; border-radius: 4px 4px 0 0; }
+        @media (max-width: 700px) { .layout { grid-template-columns: 1fr; } }`, `
+    <div class="layout">
+        <nav>
+            <h1>📊 Dashboard</h1>
+            <a href="#" class="active">Overview</a>
+            <a href="#">Reports</a>
+            <a href="#">Settings</a>
+        </nav>
+        <main>
+            <h2>Overview</h2>
+            <div class="stats" id="stats"></div>
+            <div class="card">
+                <h3>Last 7 days</h3>
+                <div class="bars" id="chart"></div>
+            </div>
+        </main>
+    </div>`, `
+        const stats = [
+            { label: 'Visitors', value: 1284 },
+            { label: 'Sign-ups', value: 96 },
+            { label: 'Revenue', value: '€3,420' },
+            { label: 'Open tasks', value: 12 }
+        ];
+        const week = [40, 65, 52, 80, 71, 95, 60];
+
+        document.getElementById('stats').innerHTML = stats.map(function (s) {
+            return '<div class="card"><div class="stat-value">' + s.value + '</div><div class="stat-label">' + s.label + '</div></div>';
+        }).join('');
+        document.getElementById('chart').innerHTML = week.map(function (v) {
+            return '<div class="bar" style="height: ' + v + '%" title="' + v + '"></div>';
+        }).join('');`);
+
+const quiz = page('Quiz', `
+        .container { max-width: 640px; margin: 3rem auto; padding: 0 1rem; }
+        h1 { font-size: 2rem; margin-bottom: 1rem; }
+        .progress { color: #6b7280; margin-bottom: 1rem; }
+        .answers { display: grid; gap: 0.75rem; margin-top: 1.5rem; }
+        .answers button { background: white; color: #111827; border: 2px solid #e5e7eb; text-align: left; }
+        .answers button:hover { border-color: #2563eb; background: white; }
+        .answers button.correct { border-color: #059669; background: #ecfdf5; }
+        .answers button.wrong { border-color: #dc2626; background: #fef2f2; }
+        #next { margin-top: 1.5rem; display: none; }`, `
+    <div class="container">
+        <h1>🧠 Quiz</h1>
+        <div class="card">
+            <div class="progress" id="progress"></div>
+            <h2 id="question"></h2>
+            <div class="answers" id="answers"></div>
+            <button id="next">Next question</button>
+        </div>
+    </div>`, `
+        const questions = [
+            { question: 'Which planet is known as the Red Planet?', answers: ['Venus', 'Mars', 'Jupiter'], correct: 1 },
+            { question: 'What is 7 × 8?', answers: ['54', '56', '64'], correct: 1 },
+            { question: 'Which language runs in the browser?', answers: ['JavaScript', 'Python', 'C'], correct: 0 }
+        ];
+        let current = 0;
+        let score = 0;
+
+        function showQuestion() {
+            const q = questions[current];
+            document.getElementById('progress').textContent = 'Question ' + (current + 1) + ' of ' + questions.length;
+            document.getElementById('question').textContent = q.question;
+            document.getElementById('next').style.display = 'none';
+            const answers = document.getElementById('answers');
+            answers.innerHTML = '';
+            q.answers.forEach(function (answer, index) {
+                const button = document.createElement('button');
+                button.textContent = answer;
+                button.onclick = function () { choose(index); };
+                answers.appendChild(button);
+            });
+        }
+
+        function choose(index) {
+            const q = questions[current];
+            const buttons = document.querySelectorAll('#answers button');
+            buttons.forEach(function (button, i) {
+                button.disabled = true;
+                if (i === q.correct) button.classList.add('correct');
+                else if (i === index) button.classList.add('wrong');
+            });
+            if (index === q.correct) score++;
+            document.getElementById('next').style.display = 'inline-block';
+        }
+
+        document.getElementById('next').onclick = function () {
+            current++;
+            if (current < questions.length) {
+                showQuestion();
+                return;
+            }
+            document.querySelector('.card').innerHTML = '<h2>Done!</h2><p>You got ' + score + ' of ' + questions.length + ' right.</p>';
+        };
+
+        showQuestion();`);
+
+const landingPage = page('Landing Page', `
+        header { display: flex; justify-content: space-between; align-items: center; padding: 1rem 2rem; background: white; border-bottom: 1px solid #e5e7eb; }
+        header strong { font-size: 1.25rem; }
+        .hero { text-align: center; padding: 5rem 1rem; }
+        .hero h1 { font-size: 2.5rem; margin-bottom: 1rem; }
+        .hero p { color: #6b7280; font-size: 1.125rem; max-width: 560px; margin: 0 auto 2rem; }
+        .features { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 1.5rem; max-width: 960px; margin: 0 auto; padding: 0 1rem 4rem; }
+        .features h3 { margin-bottom: 0.5rem; }
+        .features p { color: #6b7280; }
+        footer { text-align: center; color: #9ca3af; padding: 2rem; border-top: 1px solid #e5e7eb; }`, `
+    <header>
+        <strong>🚀 Product</strong>
+        <button onclick="document.getElementById('features').scrollIntoView({ behavior: 'smooth' })">Learn more</button>
+    </header>
+    <section class="hero">
+        <h1>Your idea in one sentence</h1>
+        <p>Explain in two or three lines who this is for and why they will love it.</p>
+        <button onclick="alert('Thanks for your interest!')">Get started</button>
+    </section>
+    <section class="features" id="features">
+        <div class="card"><h3>⚡ Fast</h3><p>Describe the first benefit.</p></div>
+        <div class="card"><h3>🔒 Safe</h3><p>Describe the second benefit.</p></div>
+        <div class="card"><h3>💡 Simple</h3><p>Describe the third benefit.</p></div>
+    </section>
+    <footer>© Your name</footer>`);
+
+const form = page('Form', `
+        .container { max-width: 560px; margin: 3rem auto; padding: 0 1rem; }
+        h1 { font-size: 2rem; margin-bottom: 1.5rem; }
+        label { display: block; font-weight: 500; margin-bottom: 0.25rem; }
+        input, select, textarea { width: 100%; padding: 0.75rem; border: 2px solid #e5e7eb; border-radius: 6px; font-size: 1rem; margin-bottom: 1rem; font-family: inherit; }
+        input:focus, select:focus, textarea:focus { outline: none; border-color: #2563eb; }
+        .error { color: #dc2626; font-size: 0.875rem; margin: -0.75rem 0 1rem; display: none; }
+        .success { background: #ecfdf5; color: #065f46; padding: 1rem; border-radius: 6px; display: none; }`, `
+    <div class="container">
+        <h1>📝 Sign-up form</h1>
+        <form class="card" id="form" novalidate>
+            <label for="name">Name</label>
+            <input id="name" required>
+            <label for="email">Email</label>
+            <input id="email" type="email" required>
+            <div class="error" id="email-error">Please enter a valid email address.</div>
+            <label for="topic">Topic</label>
+            <select id="topic">
+                <option>General question</option>
+                <option>Feedback</option>
+                <option>Other</option>
+            </select>
+            <label for="message">Message</label>
+            <textarea id="message" rows="4"></textarea>
+            <button type="submit">Send</button>
+        </form>
+        <div class="success" id="success">Thank you! Your entry has been saved.</div>
+    </div>`, `
+        document.getElementById('form').addEventListener('submit', function (event) {
+            event.preventDefault();
+            const email = document.getElementById('email');
+            const valid = /^[^@\\s]+@[^@\\s]+$/.test(email.value);
+            document.getElementById('email-error').style.display = valid ? 'none' : 'block';
+            if (!valid || !document.getElementById('name').value.trim()) return;
+
+            // Entries are kept in this browser only
+            const entries = JSON.parse(localStorage.getItem('entries') || '[]');
+            entries.push({
+                name: document.getElementById('name').value,
+                email: email.value,
+                topic: document.getElementById('topic').value,
+                message: document.getElementById('message').value,
+                sentAt: new Date().toISOString()
+            });
+            localStorage.setItem('entries', JSON.stringify(entries));
+
+            this.style.display = 'none';
+            document.getElementById('success').style.display = 'block';
+        });`);
+
+const SHIPPED_AT = '2026-01-01T00:00:00.000Z';
+
+function builtIn(id: string, name: string, description: string, suggestedPrompt: string, html: string): Template {
+  return {
+    id,
+    name,
+    description,
+    suggestedPrompt,
+    files: [{ path: 'index.html', content: html }],
+    builtIn: true,
+    createdAt: SHIPPED_AT,
+    updatedAt: SHIPPED_AT
+  };
+}
+
+export const BUILT_IN_TEMPLATES: Template[] = [
+  builtIn('dashboard', 'Dashboard', 'Sidebar navigation, key figures and a bar chart',
+    'Turn this into a dashboard for my class: show the number of students, finished homework and a chart of the last week', dashboard),
+  builtIn('quiz', 'Quiz', 'Multiple choice questions with feedback and a score at the end',
+    'Make this a quiz about my favourite topic with ten questions', quiz),
+  builtIn('landing-page', 'Landing Page', 'Header, hero section with call to action and feature cards',
+    'Adapt this landing page for my project and describe its three best features', landingPage),
+  builtIn('form', 'Form', 'Validated sign-up form that keeps entries in the browser',
+    'Change this form so people can register for our school event and show a list of all entries', form)
+];
@@ -0,0 +1,105 @@
+// Written by the offline mock provider while no Anthropic API key is configured.
+// Both arguments are inserted as HTML.
+export function renderPreviewApp(name: string, prompt: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${name}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background: #f9fafb;
+            color: #111827;
+            line-height: 1.6;
+            padding: 2rem;
+            min-height: 100vh;
+        }
+        .container {
+            max-width: 800px;
+            margin: 0 auto;
+            background: white;
+            border-radius: 8px;
+            padding: 2rem;
+            box-shadow: 0 1px 3px rgba(0,0,0,0.1);
+        }
+        h1 {
+            color: #111827;
+            font-size: 2rem;
+            font-weight: 600;
+            margin-bottom: 1rem;
+            border-bottom: 2px solid #e5e7eb;
+            padding-bottom: 0.75rem;
+        }
+        p {
+            color: #6b7280;
+            margin-bottom: 1rem;
+            font-size: 1rem;
+        }
+        .info-box {
+            background: #f3f4f6;
+            border-left: 3px solid #2563eb;
+            padding: 1rem;
+            border-radius: 4px;
+            margin: 1.5rem 0;
+        }
+        .info-box strong {
+            color: #111827;
+            display: block;
+            margin-bottom: 0.5rem;
+        }
+        .note {
+            background: #fef3c7;
+            border-left: 3px solid #f59e0b;
+            padding: 1rem;
+            border-radius: 4px;
+            margin: 1.5rem 0;
+            color: #92400e;
+        }
+        button {
+            background: #2563eb;
+            color: white;
+            border: none;
+            padding: 0.75rem 1.5rem;
+            border-radius: 6px;
+            font-size: 1rem;
+            font-weight: 500;
+            cursor: pointer;
+            transition: background 0.2s;
+            margin-top: 1rem;
+        }
+        button:hover {
+            background: #1d4ed8;
+        }
+        .footer {
+            margin-top: 2rem;
+            padding-top: 1rem;
+            border-top: 1px solid #e5e7eb;
+            color: #9ca3af;
+            font-size: 0.875rem;
+            text-align: center;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>Professional App Template</h1>
+        <p>This application preview was generated based on your requirements:</p>
+        <div class="info-box">
+            <strong>Your Request:</strong>
+            <p style="margin: 0; color: #374151;">"${prompt}"</p>
+        </div>
+        <div class="note">
+            <strong>⚠️ Configuration Required</strong>
+            <p style="margin: 0;">This is a preview template. To generate fully functional, production-ready applications with AI, please configure your Anthropic API key in the environment settings.</p>
+        </div>
+        <button onclick="alert('Feature activated! In production, this would trigger your app\\'s main functionality.')">Get Started</button>
+        <div class="footer">
+            Generated by Makeable • Professional App Builder
+        </div>
+    </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+import { normalizeFilePath } from '../preview/previewFiles.js';
+import type { ProjectFile } from '../projects/types.js';
+import type { TemplateRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+import { BUILT_IN_TEMPLATES } from './builtInTemplates.js';
+
+// Starting point for a new project, handed to the agent as its existing files
+export interface Template {
+  id: string;
+  name: string;
+  description: string;
+  suggestedPrompt: string; // Prefilled in the prompt field when the template is picked
+  files: ProjectFile[];
+  builtIn?: boolean; // Shipped with the server, cannot be changed or deleted
+  createdBy?: string; // User id of the admin who added it
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TemplateInput = Pick<Template, 'name' | 'description' | 'suggestedPrompt' | 'files'>;
+
+const MAX_NAME_LENGTH = 60;
+
+export class TemplateStorage {
+  constructor(
+    private readonly repository: TemplateRepository,
+    private readonly builtIn: Template[]
+  ) {}
+
+  // Built-in templates first, then the ones added by admins by name
+  getAllTemplates(): Template[] {
+    const custom = this.repository.findAll().sort((a, b) => a.name.localeCompare(b.name));
+    return [...this.builtIn, ...custom];
+  }
+
+  findById(id: string): Template | undefined {
+    return this.builtIn.find(t => t.id === id) ?? this.repository.findById(id);
+  }
+
+  createTemplate(input: TemplateInput, createdBy: string): Template {
+    const now = new Date().toISOString();
+    const template: Template = {
+      id: randomUUID(),
+      name: '',
+      description: '',
+      suggestedPrompt: '',
+      files: [],
+      createdBy,
+      createdAt: now,
+      updatedAt: now
+    };
+    return this.saveValidated(template, input);
+  }
+
+  updateTemplate(id: string, updates: Partial<TemplateInput>): Template | null {
+    this.assertNotBuiltIn(id);
+    const template = this.repository.findById(id);
+    if (!template) return null;
+    return this.saveValidated({ ...template, updatedAt: new Date().toISOString() }, updates);
+  }
+
+  deleteTemplate(id: string): boolean {
+    this.assertNotBuiltIn(id);
+    return this.repository.delete(id);
+  }
+
+  private assertNotBuiltIn(id: string) {
+    if (this.builtIn.some(t => t.id === id)) {
+      throw new Error('Built-in templates cannot be changed');
+    }
+  }
+
+  private saveValidated(template: Template, changes: Partial<TemplateInput>): Template {
+    const updated: Template = { ...template };
+
+    if (changes.name !== undefined) updated.name = String(changes.name).trim().slice(0, MAX_NAME_LENGTH);
+    if (changes.description !== undefined) updated.description = String(changes.description).trim();
+    if (changes.suggestedPrompt !== undefined) updated.suggestedPrompt = String(changes.suggestedPrompt).trim();
+    if (changes.files !== undefined) updated.files = normalizeTemplateFiles(changes.files);
+
+    if (!updated.name) {
+      throw new Error('Template name is required');
+    }
+    const sameName = this.getAllTemplates().find(t => t.name.toLowerCase() === updated.name.toLowerCase());
+    if (sameName && sameName.id !== updated.id) {
+      throw new Error(`A template named "${updated.name}" already exists`);
+    }
+    if (!updated.files.some(f => f.path === 'index.html')) {
+      throw new Error('A template needs an index.html file');
+    }
+
+    this.repository.save(updated);
+    return updated;
+  }
+}
+
+export function normalizeTemplateFiles(files: unknown): ProjectFile[] {
+  if (!Array.isArray(files)) {
+    throw new Error('files must be an array of { path, content }');
+  }
+
+  const byPath = new Map<string, ProjectFile>();
+  for (const file of files) {
+    if (!file || typeof file.path !== 'string' || typeof file.content !== 'string') {
+      throw new Error('files must be an array of { path, content }');
+    }
+    const filePath = normalizeFilePath(file.path);
+    if (!filePath) {
+      throw new Error(`Invalid file path "${file.path}"`);
+    }
+    byPath.set(filePath, { path: filePath, content: file.content });
+  }
+  return Array.from(byPath.values());
+}
+
+export const templateStorage = new TemplateStorage(repositories.templates, BUILT_IN_TEMPLATES);
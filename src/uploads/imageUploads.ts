@@ -0,0 +1,49 @@
+import { v2 as cloudinary, type UploadApiErrorResponse, type UploadApiResponse } from 'cloudinary';
+
+// Images uploaded for prompts and profile pictures. They are stored in one
+// Cloudinary folder per user and tagged with the user, so they can be
+// removed together with the account.
+
+const UPLOAD_FOLDER = 'makeable-uploads';
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME || 'demo',
+  api_key: process.env.CLOUDINARY_API_KEY || '',
+  api_secret: process.env.CLOUDINARY_API_SECRET || ''
+});
+
+export function isCloudinaryConfigured(): boolean {
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  return Boolean(cloudName && process.env.CLOUDINARY_API_KEY && process.env.CLOUDINARY_API_SECRET && cloudName !== 'demo');
+}
+
+function userTag(userId: string): string {
+  return `user_${userId}`;
+}
+
+export function uploadImage(buffer: Buffer, userId: string): Promise<{ url: string; publicId: string }> {
+  return new Promise((resolve, reject) => {
+    const uploadStream = cloudinary.uploader.upload_stream(
+      {
+        folder: `${UPLOAD_FOLDER}/${userId}`,
+        tags: [userTag(userId)],
+        resource_type: 'auto'
+      },
+      (error: UploadApiErrorResponse | undefined, result: UploadApiResponse | undefined) => {
+        if (error) reject(error);
+        else if (!result) reject(new Error('Cloudinary returned no upload result'));
+        else resolve({ url: result.secure_url, publicId: result.public_id });
+      }
+    );
+    uploadStream.end(buffer);
+  });
+}
+
+// Uploads from before they were tagged cannot be attributed to a user and stay.
+// Images that fell back to data URLs live in the project files instead.
+export async function deleteUserUploads(userId: string): Promise<void> {
+  if (!isCloudinaryConfigured()) return;
+  for (const resourceType of ['image', 'video', 'raw']) {
+    await cloudinary.api.delete_resources_by_tag(userTag(userId), { resource_type: resourceType });
+  }
+}
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { QuotaPeriod, QuotaRule } from './types.js';
+
+const PERIODS: QuotaPeriod[] = ['day', 'month'];
+
+function parseRule(value: unknown, index: number): QuotaRule {
+  const rule = value as Partial<QuotaRule>;
+  if (!rule || typeof rule !== 'object') {
+    throw new Error(`Quota rule ${index + 1} must be an object`);
+  }
+  if (!PERIODS.includes(rule.period as QuotaPeriod)) {
+    throw new Error(`Quota rule ${index + 1}: period must be "day" or "month"`);
+  }
+  if (typeof rule.tokens !== 'number' || !Number.isFinite(rule.tokens) || rule.tokens < 0) {
+    throw new Error(`Quota rule ${index + 1}: tokens must be a non-negative number`);
+  }
+  if (rule.role !== undefined && !['admin', 'teacher', 'student'].includes(rule.role)) {
+    throw new Error(`Quota rule ${index + 1}: unknown role "${rule.role}"`);
+  }
+  if (rule.scope !== undefined && rule.scope !== 'user' && rule.scope !== 'course') {
+    throw new Error(`Quota rule ${index + 1}: scope must be "user" or "course"`);
+  }
+  if (rule.scope === 'course' && !rule.course) {
+    throw new Error(`Quota rule ${index + 1}: a course quota needs a course`);
+  }
+
+  return {
+    ...(rule.role ? { role: rule.role } : {}),
+    ...(rule.course ? { course: rule.course } : {}),
+    scope: rule.scope || 'user',
+    period: rule.period as QuotaPeriod,
+    tokens: rule.tokens
+  };
+}
+
+// Reads the quota rules from QUOTAS_FILE (default ./quotas.json).
+// Without the file nobody is limited.
+export function loadQuotaRules(env: NodeJS.ProcessEnv = process.env): QuotaRule[] {
+  const file = env.QUOTAS_FILE || path.join(process.cwd(), 'quotas.json');
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const config = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const rules: unknown[] = Array.isArray(config) ? config : config?.quotas;
+  if (!Array.isArray(rules)) {
+    throw new Error(`${file} must contain a "quotas" array`);
+  }
+  return rules.map(parseRule);
+}
+
+// Periods follow the server's local calendar, so a daily quota resets at local midnight
+export function getPeriodBounds(period: QuotaPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  if (period === 'day') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return { start, end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) };
+  }
+  const start = new Date(now.getFullYear(), now.getMonth(), 1);
+  return { start, end: new Date(now.getFullYear(), now.getMonth() + 1, 1) };
+}
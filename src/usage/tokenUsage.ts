@@ -0,0 +1,23 @@
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// The usage fields of a model response, as in Anthropic's Messages API
+export interface ModelUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+// Prompt cache reads and writes are billed as input, so they count as input here
+export function getTokenUsage(response: { model: string; usage: ModelUsage }): TokenUsage {
+  const usage = response.usage;
+  return {
+    model: response.model,
+    inputTokens: usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0),
+    outputTokens: usage.output_tokens
+  };
+}
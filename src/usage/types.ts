@@ -0,0 +1,40 @@
+export type UsageSource = 'generate' | 'iterate' | 'suggestions';
+
+// Tokens spent by one Anthropic API call
+export interface UsageRecord {
+  id: string;
+  userId: string;
+  courseId?: string; // Course of the user at the time of the call
+  projectId?: string;
+  source: UsageSource;
+  model: string;
+  inputTokens: number; // Includes prompt cache reads and writes
+  outputTokens: number;
+  createdAt: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export type QuotaPeriod = 'day' | 'month';
+
+// A token limit for every user that matches role and course. With scope
+// 'course' the limit is shared by all users of the course instead.
+export interface QuotaRule {
+  role?: 'admin' | 'teacher' | 'student';
+  course?: string; // Course id or name
+  scope?: 'user' | 'course';
+  period: QuotaPeriod;
+  tokens: number;
+}
+
+export interface QuotaStatus {
+  rule: QuotaRule;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
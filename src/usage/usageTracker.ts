@@ -0,0 +1,96 @@
+import { randomUUID } from 'crypto';
+import type { User } from '../auth/userStorage.js';
+import type { CourseRepository, UsageRepository } from '../storage/repositories.js';
+import { repositories } from '../storage/index.js';
+import { getPeriodBounds, loadQuotaRules } from './quotas.js';
+import type { QuotaRule, QuotaStatus, UsageRecord, UsageSource, UsageTotals } from './types.js';
+
+// Thrown before an API call when the user has no tokens left, mapped to 429 responses
+export class QuotaExceededError extends Error {
+  constructor(public readonly quota: QuotaStatus) {
+    const period = quota.rule.period === 'day' ? 'daily' : 'monthly';
+    const owner = quota.rule.scope === 'course' ? `The ${period} token quota of your course` : `Your ${period} token quota`;
+    super(`${owner} (${quota.rule.tokens.toLocaleString('en-US')} tokens) is used up. It resets at ${quota.resetsAt}.`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  for (const record of records) {
+    totals.calls++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+  }
+  totals.totalTokens = totals.inputTokens + totals.outputTokens;
+  return totals;
+}
+
+export class UsageTracker {
+  constructor(
+    private readonly repository: UsageRepository,
+    private readonly rules: QuotaRule[],
+    private readonly courses: CourseRepository
+  ) {}
+
+  private ruleApplies(rule: QuotaRule, user: User): boolean {
+    if (rule.role !== undefined && rule.role !== user.role) return false;
+    if (rule.course === undefined) return true;
+
+    // Rules may name the course, which survives re-creating it with a new id
+    const course = user.courseId ? this.courses.findById(user.courseId) : undefined;
+    return course !== undefined && (rule.course === course.id || rule.course === course.name);
+  }
+
+  record(
+    user: User,
+    call: { source: UsageSource; projectId?: string; model: string; inputTokens: number; outputTokens: number }
+  ): UsageRecord {
+    const record: UsageRecord = {
+      id: randomUUID(),
+      userId: user.id,
+      ...(user.courseId ? { courseId: user.courseId } : {}),
+      ...(call.projectId ? { projectId: call.projectId } : {}),
+      source: call.source,
+      model: call.model,
+      inputTokens: call.inputTokens,
+      outputTokens: call.outputTokens,
+      createdAt: new Date().toISOString()
+    };
+    this.repository.add(record);
+    return record;
+  }
+
+  getUsageSince(since: Date, filter: { userId?: string; courseId?: string } = {}): UsageRecord[] {
+    return this.repository.findSince(since.toISOString(), filter);
+  }
+
+  getAllUsage(): UsageRecord[] {
+    return this.repository.findAll();
+  }
+
+  // Every quota that applies to the user, with what is used of it in the current period
+  getQuotaStatus(user: User, now: Date = new Date()): QuotaStatus[] {
+    return this.rules.filter(rule => this.ruleApplies(rule, user)).map(rule => {
+      const { start, end } = getPeriodBounds(rule.period, now);
+      const filter = rule.scope === 'course' ? { courseId: user.courseId } : { userId: user.id };
+      const used = sumUsage(this.getUsageSince(start, filter)).totalTokens;
+      return {
+        rule,
+        used,
+        remaining: Math.max(0, rule.tokens - used),
+        resetsAt: end.toISOString()
+      };
+    });
+  }
+
+  // Runs are not interrupted halfway, so a quota can be overdrawn by the last run
+  assertWithinQuota(user: User) {
+    const exceeded = this.getQuotaStatus(user).find(status => status.remaining <= 0);
+    if (exceeded) {
+      throw new QuotaExceededError(exceeded);
+    }
+  }
+}
+
+export const usageTracker = new UsageTracker(repositories.usage, loadQuotaRules(), repositories.courses);
@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type {
+  AdminProjectBody, AuditBody, CourseBody, DeleteUserBody, GenerateBody, MeBody, ProjectsBody, UsersBody
+} from './helpers/responses.js';
+import { startTestServer, waitForProject, type TestServer, type TestUser } from './helpers/testServer.js';
+
+let server: TestServer;
+let admin: TestUser;
+let teacher: TestUser;
+let student: TestUser;
+let otherStudent: TestUser;
+let courseId: string;
+let otherCourseId: string;
+
+before(async () => {
+  server = await startTestServer();
+  admin = await server.createAdmin();
+  const course = await server.createCourse(admin, 'Admin 101');
+  const otherCourse = await server.createCourse(admin, 'Admin 102');
+  courseId = course.id;
+  otherCourseId = otherCourse.id;
+  teacher = await server.createTeacher(admin, courseId);
+  student = await server.registerStudent(course.inviteCode);
+  otherStudent = await server.registerStudent(otherCourse.inviteCode);
+});
+
+after(() => server.close());
+
+async function generate(user: TestUser, prompt: string): Promise<string> {
+  const response = await server.request<GenerateBody>('POST', '/api/generate', { token: user.token, body: { prompt } });
+  await waitForProject(server, user.token, response.body.project.id);
+  return response.body.project.id;
+}
+
+describe('admin routes', () => {
+  it('are closed to students', async () => {
+    for (const url of ['/api/admin/users', '/api/admin/projects', '/api/admin/courses', '/api/admin/audit', '/api/admin/stats']) {
+      assert.equal((await server.request('GET', url, { token: student.token })).status, 403, url);
+    }
+    assert.equal((await server.request('GET', '/api/admin/users')).status, 401);
+  });
+
+  it('show teachers only the students of their courses', async () => {
+    const { body } = await server.request<UsersBody>('GET', '/api/admin/users', { token: teacher.token });
+    const ids = body.users.map(u => u.id);
+
+    assert.ok(ids.includes(student.id));
+    assert.ok(!ids.includes(otherStudent.id));
+    assert.ok(!ids.includes(admin.id));
+    assert.equal((await server.request('GET', `/api/admin/users?courseId=${otherCourseId}`, { token: teacher.token })).status, 403);
+  });
+
+  it('show teachers only the projects of their courses and log the views', async () => {
+    const ownCourseProject = await generate(student, 'A class poll');
+    const otherCourseProject = await generate(otherStudent, 'A secret diary');
+
+    const { body } = await server.request<ProjectsBody>('GET', '/api/admin/projects', { token: teacher.token });
+    const ids = body.projects.map(p => p.id);
+    assert.ok(ids.includes(ownCourseProject));
+    assert.ok(!ids.includes(otherCourseProject));
+
+    await server.request('POST', `/api/projects/${ownCourseProject}/share-links`, { token: student.token, body: {} });
+    const details = await server.request<AdminProjectBody>('GET', `/api/admin/projects/${ownCourseProject}`, { token: teacher.token });
+    assert.equal(details.status, 200);
+    assert.equal(details.body.shareLinks, undefined);
+    assert.equal(details.body.shareLinkCount, 1);
+    assert.equal((await server.request('GET', `/api/admin/projects/${otherCourseProject}`, { token: teacher.token })).status, 403);
+    // Staff can look, but not change a student's project
+    const rename = await server.request('PATCH', `/api/projects/${ownCourseProject}/rename`, { token: teacher.token, body: { name: 'Taken over' } });
+    assert.equal(rename.status, 403);
+
+    const audit = await server.request<AuditBody>('GET', `/api/admin/audit?action=project.viewed&targetId=${ownCourseProject}`, { token: admin.token });
+    assert.equal(audit.body.entries.length, 1);
+    assert.equal(audit.body.entries[0].actorId, teacher.id);
+  });
+});
+
+describe('courses', () => {
+  it('are created and deleted by admins only', async () => {
+    assert.equal((await server.request('POST', '/api/admin/courses', { token: teacher.token, body: { name: 'Rogue course' } })).status, 403);
+    assert.equal((await server.request('DELETE', `/api/admin/courses/${courseId}`, { token: teacher.token })).status, 403);
+    // Courses with students are not deleted
+    assert.equal((await server.request('DELETE', `/api/admin/courses/${courseId}`, { token: admin.token })).status, 409);
+  });
+
+  it('let teachers edit their own courses but not others', async () => {
+    const own = await server.request<CourseBody>('PATCH', `/api/admin/courses/${courseId}`, { token: teacher.token, body: { description: 'Mondays' } });
+    assert.equal(own.status, 200);
+    assert.equal(own.body.course.description, 'Mondays');
+
+    const other = await server.request('PATCH', `/api/admin/courses/${otherCourseId}`, { token: teacher.token, body: { description: 'Mine' } });
+    assert.equal(other.status, 403);
+  });
+
+  it('take model settings from admins only', async () => {
+    const modelSettings = { model: 'claude-3-5-haiku-20241022', maxTokens: 8000, maxTurns: 5 };
+
+    const byTeacher = await server.request('PATCH', `/api/admin/courses/${courseId}`, { token: teacher.token, body: { modelSettings } });
+    assert.equal(byTeacher.status, 403);
+
+    const invalid = await server.request('PATCH', `/api/admin/courses/${courseId}`, { token: admin.token, body: { modelSettings: { maxTurns: 0 } } });
+    assert.equal(invalid.status, 400);
+
+    const byAdmin = await server.request<CourseBody>('PATCH', `/api/admin/courses/${courseId}`, { token: admin.token, body: { modelSettings } });
+    assert.equal(byAdmin.status, 200);
+    assert.deepEqual(byAdmin.body.course.modelSettings, modelSettings);
+
+    const removed = await server.request<CourseBody>('PATCH', `/api/admin/courses/${courseId}`, { token: admin.token, body: { modelSettings: null } });
+    assert.equal(removed.body.course.modelSettings, undefined);
+  });
+});
+
+describe('user management', () => {
+  it('changes roles, but never demotes the last admin', async () => {
+    const user = await server.registerStudent((await server.request<CourseBody>('GET', `/api/admin/courses/${courseId}`, { token: admin.token })).body.course.inviteCode);
+
+    assert.equal((await server.request('PATCH', `/api/admin/users/${user.id}/role`, { token: teacher.token, body: { role: 'admin' } })).status, 403);
+    assert.equal((await server.request('PATCH', `/api/admin/users/${user.id}/role`, { token: admin.token, body: { role: 'owner' } })).status, 400);
+    assert.equal((await server.request('PATCH', `/api/admin/users/${admin.id}/role`, { token: admin.token, body: { role: 'student' } })).status, 409);
+
+    const promoted = await server.request('PATCH', `/api/admin/users/${user.id}/role`, { token: admin.token, body: { role: 'teacher' } });
+    assert.equal(promoted.status, 200);
+    assert.equal((await server.request<MeBody>('GET', '/api/auth/me', { token: user.token })).body.role, 'teacher');
+
+    const audit = await server.request<AuditBody>('GET', `/api/admin/audit?action=user.role_changed&targetId=${user.id}`, { token: admin.token });
+    assert.deepEqual(audit.body.entries[0].details, { from: 'student', to: 'teacher' });
+  });
+
+  it('deletes a user with their projects', async () => {
+    const user = await server.registerStudent((await server.request<CourseBody>('GET', `/api/admin/courses/${courseId}`, { token: admin.token })).body.course.inviteCode);
+    const projectId = await generate(user, 'A project to delete');
+
+    const response = await server.request<DeleteUserBody>('DELETE', `/api/admin/users/${user.id}`, { token: admin.token });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.projects, 1);
+
+    assert.equal((await server.request('GET', `/api/admin/projects/${projectId}`, { token: admin.token })).status, 404);
+    assert.equal((await server.request('GET', '/api/auth/me', { token: user.token })).status, 401);
+    const login = await server.request('POST', '/api/auth/login', { body: { email: user.email, password: user.password } });
+    assert.equal(login.status, 401);
+  });
+
+  it('exports the users as CSV', async () => {
+    const response = await server.request<string>('GET', '/api/admin/users.csv', { token: admin.token });
+
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') ?? '', /text\/csv/);
+    assert.match(response.body, /^email,name,role,course,createdAt/);
+    assert.ok(response.body.includes(student.email));
+  });
+});
+
+describe('audit log', () => {
+  it('records logins and filters by action group', async () => {
+    await server.request('POST', '/api/auth/login', { body: { email: student.email, password: student.password } });
+    await server.request('POST', '/api/auth/login', { body: { email: student.email, password: 'wrong-password' } });
+
+    const { body } = await server.request<AuditBody>('GET', `/api/admin/audit?action=auth&actorId=${student.id}`, { token: admin.token });
+    const actions = body.entries.map(e => e.action);
+    assert.ok(actions.includes('auth.login'));
+    assert.ok(actions.includes('auth.login_failed'));
+    assert.ok(actions.every(a => a.startsWith('auth.')));
+  });
+
+  it('rejects invalid filters', async () => {
+    const response = await server.request('GET', '/api/admin/audit?limit=0', { token: admin.token });
+    assert.equal(response.status, 400);
+  });
+});
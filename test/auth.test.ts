@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { AuthBody, LogoutAllBody, MeBody, SessionsBody } from './helpers/responses.js';
+import { startTestServer, type TestServer, type TestUser } from './helpers/testServer.js';
+
+let server: TestServer;
+let admin: TestUser;
+let inviteCode: string;
+
+before(async () => {
+  server = await startTestServer();
+  admin = await server.createAdmin();
+  ({ inviteCode } = await server.createCourse(admin, 'Auth 101'));
+});
+
+after(() => server.close());
+
+// The token from the link in the last mail to the address
+async function tokenFromMail(email: string, page: string): Promise<string> {
+  const mails = await server.readMails(email);
+  assert.ok(mails.length > 0, `no mail to ${email}`);
+  const match = mails[mails.length - 1].text.match(new RegExp(`${page}\\?token=([^\\s]+)`));
+  assert.ok(match, `no ${page} link in the mail`);
+  return decodeURIComponent(match[1]);
+}
+
+describe('admin setup', () => {
+  it('needs a valid setup token', async () => {
+    const response = await server.request('POST', '/api/auth/setup-admin', {
+      body: { email: 'intruder@example.com', password: 'intruder-password', name: 'Intruder', token: 'wrong' }
+    });
+
+    assert.equal(response.status, 403);
+    const login = await server.request('POST', '/api/auth/login', {
+      body: { email: 'intruder@example.com', password: 'intruder-password' }
+    });
+    assert.equal(login.status, 401);
+  });
+
+  it('creates an admin with a setup token', async () => {
+    const me = await server.request<MeBody>('GET', '/api/auth/me', { token: admin.token });
+
+    assert.equal(me.status, 200);
+    assert.equal(me.body.role, 'admin');
+    assert.equal(me.body.emailVerified, true);
+  });
+});
+
+describe('registration', () => {
+  it('needs a valid invite code', async () => {
+    const body = { email: 'nocode@example.com', password: 'student-password', name: 'No Code' };
+
+    assert.equal((await server.request('POST', '/api/auth/register', { body })).status, 400);
+    assert.equal((await server.request('POST', '/api/auth/register', { body: { ...body, inviteCode: 'WRONG123' } })).status, 400);
+  });
+
+  it('registers a student in the course of the invite code', async () => {
+    const student = await server.registerStudent(inviteCode.toLowerCase());
+
+    const me = await server.request<MeBody>('GET', '/api/auth/me', { token: student.token });
+    assert.equal(me.body.role, 'student');
+    assert.equal(me.body.course?.name, 'Auth 101');
+    assert.equal(me.body.emailVerified, false);
+  });
+
+  it('rejects an email address that is already taken', async () => {
+    const student = await server.registerStudent(inviteCode);
+
+    const response = await server.request('POST', '/api/auth/register', {
+      body: { email: student.email, password: 'other-password', name: 'Copy', inviteCode }
+    });
+    assert.equal(response.status, 400);
+  });
+
+  it('confirms the email address with the link from the mail', async () => {
+    const student = await server.registerStudent(inviteCode);
+    const token = await tokenFromMail(student.email, 'verify-email.html');
+
+    const response = await server.request('POST', '/api/auth/verify-email', { body: { token } });
+    assert.equal(response.status, 200);
+    assert.equal((await server.request<MeBody>('GET', '/api/auth/me', { token: student.token })).body.emailVerified, true);
+
+    // Links work once
+    assert.equal((await server.request('POST', '/api/auth/verify-email', { body: { token } })).status, 400);
+  });
+});
+
+describe('login and logout', () => {
+  it('rejects a wrong password', async () => {
+    const student = await server.registerStudent(inviteCode);
+
+    const response = await server.request('POST', '/api/auth/login', { body: { email: student.email, password: 'wrong-password' } });
+    assert.equal(response.status, 401);
+  });
+
+  it('starts a new session on login and ends it on logout', async () => {
+    const student = await server.registerStudent(inviteCode);
+
+    const login = await server.request<AuthBody>('POST', '/api/auth/login', { body: { email: student.email, password: student.password } });
+    assert.equal(login.status, 200);
+    assert.match(login.headers.get('set-cookie') ?? '', /refreshToken=/);
+    const token = login.body.token;
+
+    const sessions = await server.request<SessionsBody>('GET', '/api/auth/sessions', { token });
+    assert.equal(sessions.body.sessions.length, 2);
+
+    assert.equal((await server.request('POST', '/api/auth/logout', { token })).status, 200);
+    assert.equal((await server.request('GET', '/api/auth/me', { token })).status, 401);
+    // The session from the registration is still active
+    assert.equal((await server.request('GET', '/api/auth/me', { token: student.token })).status, 200);
+  });
+
+  it('ends all sessions with logout-all', async () => {
+    const student = await server.registerStudent(inviteCode);
+    const { body } = await server.request<AuthBody>('POST', '/api/auth/login', { body: { email: student.email, password: student.password } });
+
+    const response = await server.request<LogoutAllBody>('POST', '/api/auth/logout-all', { token: body.token });
+    assert.equal(response.body.revoked, 2);
+    assert.equal((await server.request('GET', '/api/auth/me', { token: student.token })).status, 401);
+  });
+
+  it('rejects requests without a valid token', async () => {
+    assert.equal((await server.request('GET', '/api/auth/me')).status, 401);
+    assert.equal((await server.request('GET', '/api/auth/me', { token: 'not-a-token' })).status, 401);
+  });
+});
+
+describe('token refresh', () => {
+  // The name=value part of the refresh cookie a response sets
+  function refreshCookie(response: { headers: Headers }): string {
+    const cookie = response.headers.getSetCookie().find(c => c.startsWith('refreshToken='));
+    assert.ok(cookie, 'no refresh cookie');
+    return cookie.split(';')[0];
+  }
+
+  it('lets two tabs refresh with the same cookie at the same time', async () => {
+    const student = await server.registerStudent(inviteCode);
+    const login = await server.request<AuthBody>('POST', '/api/auth/login', { body: { email: student.email, password: student.password } });
+    const cookie = refreshCookie(login);
+
+    const responses = await Promise.all([
+      server.request<AuthBody>('POST', '/api/auth/refresh', { cookie }),
+      server.request<AuthBody>('POST', '/api/auth/refresh', { cookie })
+    ]);
+
+    for (const response of responses) {
+      assert.equal(response.status, 200);
+      assert.equal((await server.request('GET', '/api/auth/me', { token: response.body.token })).status, 200);
+    }
+    // Only one of them replaced the refresh token
+    assert.equal(responses.filter(r => r.headers.getSetCookie().some(c => c.startsWith('refreshToken='))).length, 1);
+  });
+
+  it('ends the session when an older refresh token is used again', async () => {
+    const student = await server.registerStudent(inviteCode);
+    const login = await server.request<AuthBody>('POST', '/api/auth/login', { body: { email: student.email, password: student.password } });
+    const first = refreshCookie(login);
+    const second = refreshCookie(await server.request('POST', '/api/auth/refresh', { cookie: first }));
+    await server.request('POST', '/api/auth/refresh', { cookie: second });
+
+    assert.equal((await server.request('POST', '/api/auth/refresh', { cookie: first })).status, 401);
+    assert.equal((await server.request('GET', '/api/auth/me', { token: login.body.token })).status, 401);
+  });
+});
+
+describe('password reset', () => {
+  it('sets a new password with the link from the mail and ends all sessions', async () => {
+    const student = await server.registerStudent(inviteCode);
+
+    assert.equal((await server.request('POST', '/api/auth/forgot-password', { body: { email: student.email } })).status, 200);
+    const token = await tokenFromMail(student.email, 'reset-password.html');
+
+    const reset = await server.request('POST', '/api/auth/reset-password', { body: { token, newPassword: 'new-password' } });
+    assert.equal(reset.status, 200);
+
+    assert.equal((await server.request('GET', '/api/auth/me', { token: student.token })).status, 401);
+    const oldLogin = await server.request('POST', '/api/auth/login', { body: { email: student.email, password: student.password } });
+    assert.equal(oldLogin.status, 401);
+    const newLogin = await server.request<AuthBody>('POST', '/api/auth/login', { body: { email: student.email, password: 'new-password' } });
+    assert.equal(newLogin.status, 200);
+    assert.equal(newLogin.body.user.emailVerified, true);
+  });
+
+  it('does not tell whether an address has an account', async () => {
+    const response = await server.request('POST', '/api/auth/forgot-password', { body: { email: 'nobody@example.com' } });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await server.readMails('nobody@example.com'), []);
+  });
+});
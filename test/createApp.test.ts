@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type Anthropic from '@anthropic-ai/sdk';
+import { createApp, type AgentEvent } from '../src/agent/createApp.js';
+import { MockProvider } from '../src/agent/mockProvider.js';
+import { getModelSettings } from '../src/agent/modelSettings.js';
+import { validateFiles } from '../src/agent/validateFiles.js';
+import type { TokenUsage } from '../src/usage/tokenUsage.js';
+import { loadFixture, ReplayProvider } from './helpers/replayProvider.js';
+
+const settings = getModelSettings({ AI_PROVIDER: 'mock' });
+
+// The tool results the loop sent back in the given request
+function toolResults(request: { messages: Anthropic.MessageParam[] }): Anthropic.ToolResultBlockParam[] {
+  const last = request.messages[request.messages.length - 1];
+  assert.equal(last.role, 'user');
+  assert.ok(Array.isArray(last.content), 'expected tool results');
+  return last.content.filter((block): block is Anthropic.ToolResultBlockParam => block.type === 'tool_result');
+}
+
+describe('createApp', () => {
+  it('writes the files from the tool calls and stops when the model is done', async () => {
+    const provider = new ReplayProvider(loadFixture('generate-counter'));
+    const events: AgentEvent[] = [];
+    const usage: TokenUsage[] = [];
+
+    const result = await createApp('A counter', undefined, undefined, {
+      provider,
+      settings,
+      onEvent: event => events.push(event),
+      onUsage: u => usage.push(u)
+    });
+
+    assert.deepEqual(result.files.map(f => f.path), ['index.html', 'styles.css']);
+    assert.ok(result.validation.ok);
+    assert.equal(provider.requests.length, 2);
+    assert.equal(provider.requests[0].model, settings.model);
+    assert.equal(provider.requests[0].maxTokens, settings.maxTokens);
+
+    // Both tool calls of the turn are answered, with the ids from the response
+    const results = toolResults(provider.requests[1]);
+    assert.deepEqual(results.map(r => r.tool_use_id), ['toolu_01Fixture0001', 'toolu_01Fixture0002']);
+    assert.ok(results.every(r => !r.is_error));
+    assert.match(String(results[0].content), /File index\.html created successfully/);
+
+    assert.deepEqual(
+      events.filter(e => e.type === 'file_written').map(e => e.type === 'file_written' && e.path),
+      ['index.html', 'styles.css']
+    );
+    assert.deepEqual(usage, [
+      { model: 'claude-sonnet-4-20250514', inputTokens: 2630, outputTokens: 412 },
+      { model: 'claude-sonnet-4-20250514', inputTokens: 3120, outputTokens: 24 }
+    ]);
+  });
+
+  it('reports a write_file call without content as an error and lets the model retry', async () => {
+    const provider = new ReplayProvider(loadFixture('incomplete-write'));
+
+    const result = await createApp('A counter', undefined, undefined, { provider, settings });
+
+    const [incomplete] = toolResults(provider.requests[1]);
+    assert.equal(incomplete.tool_use_id, 'toolu_01Fixture0003');
+    assert.equal(incomplete.is_error, true);
+    assert.match(String(incomplete.content), /Incomplete file data/);
+
+    assert.equal(provider.requests.length, 3);
+    assert.deepEqual(result.files.map(f => f.path), ['index.html']);
+    assert.ok(result.validation.ok);
+  });
+
+  it('sends problems found by the automatic checks back with the tool results', async () => {
+    const provider = new ReplayProvider(loadFixture('broken-reference'));
+    const events: AgentEvent[] = [];
+
+    const result = await createApp('A counter', undefined, undefined, { provider, settings, onEvent: e => events.push(e) });
+
+    const [afterIndex] = toolResults(provider.requests[1]);
+    assert.match(String(afterIndex.content), /Automatic checks found 1 problem/);
+    assert.match(String(afterIndex.content), /styles\.css/);
+    const [afterStyles] = toolResults(provider.requests[2]);
+    assert.doesNotMatch(String(afterStyles.content), /Automatic checks/);
+
+    assert.deepEqual(
+      events.filter(e => e.type === 'validation').map(e => e.type === 'validation' && e.ok),
+      [false, true]
+    );
+    assert.ok(result.validation.ok);
+  });
+
+  it('starts an update from the existing files', async () => {
+    const provider = new ReplayProvider(loadFixture('edit-existing'));
+    const { files } = await createApp('A counter', undefined, undefined, {
+      provider: new ReplayProvider(loadFixture('generate-counter')),
+      settings
+    });
+    const original = files.find(f => f.path === 'index.html')!;
+
+    const result = await createApp('Rename the button to "Add one"', files, undefined, { provider, settings });
+
+    const firstMessage = provider.requests[0].messages[0];
+    assert.match(JSON.stringify(firstMessage.content), /User's modification request: Rename the button/);
+    assert.match(provider.requests[0].system ?? '', /updating an existing web application/);
+
+    const [read] = toolResults(provider.requests[1]);
+    assert.equal(read.content, original.content);
+    assert.equal(provider.requests.length, 3);
+    assert.match(result.files.find(f => f.path === 'index.html')!.content, /<button id="increment">Add one<\/button>/);
+  });
+
+  it(`stops after ${settings.maxTurns} turns when the model never finishes`, async () => {
+    const provider = new ReplayProvider(loadFixture('endless-list-files'), { repeatLast: true });
+
+    await assert.rejects(
+      createApp('A counter', undefined, undefined, { provider, settings }),
+      /No files were generated/
+    );
+    assert.equal(provider.requests.length, settings.maxTurns);
+  });
+
+  it('follows the turn limit of the settings', async () => {
+    const provider = new ReplayProvider(loadFixture('endless-list-files'), { repeatLast: true });
+    const [file] = (await createApp('A counter', undefined, undefined, {
+      provider: new ReplayProvider(loadFixture('generate-counter')),
+      settings
+    })).files;
+
+    const result = await createApp('Keep going', [file], undefined, { provider, settings: { ...settings, maxTurns: 3 } });
+
+    assert.equal(provider.requests.length, 3);
+    assert.deepEqual(result.files, [file]);
+  });
+
+  it('fails the run when the provider fails', async () => {
+    const provider = new ReplayProvider([]);
+
+    await assert.rejects(createApp('A counter', undefined, undefined, { provider, settings }), /No fixture response left/);
+  });
+});
+
+describe('MockProvider', () => {
+  it('creates a preview page and changes it on updates, the same way every time', async () => {
+    const generate = () => createApp('A todo list', undefined, undefined, { provider: new MockProvider(), settings });
+    const created = await generate();
+    assert.deepEqual(created, await generate());
+    assert.deepEqual(created.files.map(f => f.path), ['index.html']);
+    assert.match(created.files[0].content, /A todo list/);
+    assert.ok(created.validation.ok);
+
+    const updated = await createApp('Make it <blue>', created.files, undefined, { provider: new MockProvider(), settings });
+    assert.match(updated.files[0].content, /Requested change: Make it &lt;blue&gt;<\/div>\n<\/body>/);
+    assert.ok(updated.validation.ok);
+  });
+
+  it('answers requests without tools with suggestions as JSON', async () => {
+    const response = await new MockProvider().createMessage({
+      model: settings.model,
+      maxTokens: settings.suggestionsMaxTokens,
+      messages: [{ role: 'user', content: 'Suggest improvements' }]
+    });
+
+    assert.equal(response.stop_reason, 'end_turn');
+    const [block] = response.content;
+    assert.equal(block.type, 'text');
+    const suggestions = JSON.parse(block.type === 'text' ? block.text : '');
+    assert.equal(typeof suggestions.message, 'string');
+    assert.equal(suggestions.chips.length, 4);
+  });
+});
+
+describe('validateFiles', () => {
+  it('resolves links to pages the way the preview serves them', () => {
+    const page = (body: string) => `<!DOCTYPE html>\n<html>\n<head><title>Page</title></head>\n<body>${body}</body>\n</html>\n`;
+    const files = new Map([
+      ['index.html', page('<a href="about">About</a> <a href="blog/">Blog</a> <a href="contact">Contact</a>')],
+      ['about.html', page('<a href="./">Home</a>')],
+      ['blog/index.html', page('<a href="../about">About</a>')]
+    ]);
+
+    const report = validateFiles(files);
+
+    assert.deepEqual(report.issues.map(i => i.message), ['"contact" refers to contact, which does not exist']);
+  });
+
+  it('reports references from the site root, which the preview does not serve from the app', () => {
+    const files = new Map([
+      ['index.html', '<!DOCTYPE html>\n<html>\n<head><link rel="stylesheet" href="/styles.css"></head>\n<body></body>\n</html>\n'],
+      ['styles.css', 'body { margin: 0; }']
+    ]);
+
+    const report = validateFiles(files);
+
+    assert.deepEqual(report.issues.map(i => i.message), [
+      '"/styles.css" starts at the site root, where the app does not live. Use a relative path like "styles.css"'
+    ]);
+  });
+});
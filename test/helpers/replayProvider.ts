@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { ModelProvider, ModelRequest, ModelResponse } from '../../src/agent/modelProvider.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+
+// Hand-written model responses in the Messages API format, see test/fixtures/
+interface Fixture {
+  description: string;
+  responses: ModelResponse[];
+}
+
+export function loadFixture(name: string): ModelResponse[] {
+  const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf-8')) as Fixture;
+  return fixture.responses;
+}
+
+// Answers with the fixture responses in order and keeps a copy of every
+// request. With `repeatLast` the last response is sent again and again.
+export class ReplayProvider implements ModelProvider {
+  readonly name = 'replay';
+  readonly requests: ModelRequest[] = [];
+
+  constructor(
+    private readonly responses: ModelResponse[],
+    private readonly options: { repeatLast?: boolean } = {}
+  ) {}
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    // createApp keeps appending to the same messages array
+    this.requests.push(structuredClone(request));
+
+    const index = this.requests.length - 1;
+    const response = index < this.responses.length
+      ? this.responses[index]
+      : this.options.repeatLast ? this.responses[this.responses.length - 1] : undefined;
+    if (!response) {
+      throw new Error(`No fixture response left for request ${index + 1}`);
+    }
+    return structuredClone(response);
+  }
+}
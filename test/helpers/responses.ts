@@ -0,0 +1,87 @@
+import type { AuditEntry } from '../../src/audit/types.js';
+import type { ProjectAccess } from '../../src/auth/permissions.js';
+import type { UserRole } from '../../src/auth/userStorage.js';
+import type { Course } from '../../src/courses/courseStorage.js';
+import type { Project, ProjectFile, ProjectStatus } from '../../src/projects/types.js';
+import type { UsageTotals } from '../../src/usage/types.js';
+
+// Bodies of the JSON responses, as far as the tests read them
+
+export interface ErrorBody {
+  error: string;
+  details?: string;
+}
+
+export interface AuthBody {
+  success: boolean;
+  token: string;
+  user: { id: string; email: string; name: string; role: UserRole; emailVerified: boolean };
+}
+
+export interface MeBody {
+  id: string;
+  email: string;
+  role: UserRole;
+  course?: { id: string; name: string };
+  emailVerified: boolean;
+}
+
+export interface SessionsBody {
+  sessions: Array<{ id: string; current: boolean }>;
+}
+
+export interface LogoutAllBody {
+  revoked: number;
+}
+
+export interface CourseBody {
+  course: Course;
+}
+
+export interface UsersBody {
+  users: Array<{ id: string; email: string; role: UserRole }>;
+}
+
+export interface DeleteUserBody {
+  projects: number;
+}
+
+export interface AuditBody {
+  entries: AuditEntry[];
+}
+
+export interface GenerateBody {
+  success: boolean;
+  project: { id: string; name: string; files: ProjectFile[]; status: ProjectStatus };
+}
+
+// GET /api/projects/:id
+export type ProjectBody = Project & { access: ProjectAccess };
+
+// GET /api/admin/projects/:id, without the share link tokens
+export type AdminProjectBody = Omit<Project, 'shareLinks'> & {
+  shareLinks?: never;
+  shareLinkCount: number;
+  userName: string;
+  userEmail: string;
+};
+
+export interface ProjectsBody {
+  projects: Array<{ id: string; name: string }>;
+}
+
+export interface RenameBody {
+  project: { id: string; name: string };
+}
+
+export interface UsageBody {
+  today: UsageTotals;
+}
+
+export interface ShareLinkBody {
+  shareLink: { id: string; url: string };
+}
+
+export interface PublicationBody {
+  publication: { id: string; slug: string; url: string };
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { AuthBody, CourseBody, ProjectBody } from './responses.js';
+
+// Starts the real app against empty temporary storage folders. The storage
+// is chosen when the server module is loaded, so every test file gets one
+// server (node --test runs each file in its own process).
+
+export interface TestUser {
+  id: string;
+  email: string;
+  password: string;
+  token: string;
+}
+
+export interface Response<T = unknown> {
+  status: number;
+  body: T;
+  headers: Headers;
+}
+
+export interface TestServer {
+  baseUrl: string;
+  dataDir: string;
+  request<T = unknown>(method: string, url: string, options?: { token?: string; cookie?: string; body?: unknown }): Promise<Response<T>>;
+  createAdmin(): Promise<TestUser>;
+  createCourse(admin: TestUser, name: string): Promise<{ id: string; inviteCode: string }>;
+  registerStudent(inviteCode: string, name?: string): Promise<TestUser>;
+  createTeacher(admin: TestUser, courseId: string): Promise<TestUser>;
+  readMails(to: string): Promise<Array<{ subject: string; text: string }>>;
+  close(): Promise<void>;
+}
+
+let userCount = 0;
+
+export async function startTestServer(): Promise<TestServer> {
+  const dataDir = fs.mkdtempSync(path.join(tmpdir(), 'makeable-test-'));
+  const dir = (name: string) => path.join(dataDir, name);
+
+  Object.assign(process.env, {
+    STORAGE_BACKEND: 'json',
+    USERS_DIR: dir('users'),
+    PROJECTS_DIR: dir('projects'),
+    COURSES_DIR: dir('courses'),
+    SESSIONS_DIR: dir('sessions'),
+    PUBLICATIONS_DIR: dir('publications'),
+    TEMPLATES_DIR: dir('templates'),
+    USAGE_DIR: dir('usage'),
+    AUDIT_DIR: dir('audit'),
+    BOOTSTRAP_TOKEN_FILE: dir('bootstrap-token.json'),
+    QUOTAS_FILE: dir('quotas.json'),
+    MAIL_TRANSPORT: 'outbox',
+    MAIL_OUTBOX_DIR: dir('outbox'),
+    AI_PROVIDER: 'mock',
+    AUTH_RATE_LIMIT: '1000',
+    GENERATION_RATE_LIMIT: '1000',
+    REQUIRE_EMAIL_VERIFICATION: 'false'
+  });
+
+  const { app } = await import('../../src/server.js');
+  const { bootstrapTokens } = await import('../../src/auth/bootstrapToken.js');
+  const { OutboxMailer } = await import('../../src/mail/outboxMailer.js');
+
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request: TestServer['request'] = async <T>(method: string, url: string, options: { token?: string; cookie?: string; body?: unknown } = {}) => {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: {
+        ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+        ...(options.cookie ? { Cookie: options.cookie } : {}),
+        ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // CSV, HTML and other text stays as it is
+    }
+    // The type argument names the shape the route answers with
+    return { status: response.status, body: body as T, headers: response.headers };
+  };
+
+  const nextEmail = (role: string) => `${role}${++userCount}@example.com`;
+
+  const testServer: TestServer = {
+    baseUrl,
+    dataDir,
+    request,
+
+    async createAdmin() {
+      const email = nextEmail('admin');
+      const password = 'admin-password';
+      const { token: setupToken } = bootstrapTokens.issue();
+      const response = await request<AuthBody>('POST', '/api/auth/setup-admin', {
+        body: { email, password, name: 'Admin', token: setupToken }
+      });
+      if (response.status !== 200) throw new Error(`Admin setup failed: ${JSON.stringify(response.body)}`);
+      return { id: response.body.user.id, email, password, token: response.body.token };
+    },
+
+    async createCourse(admin, name) {
+      const response = await request<CourseBody>('POST', '/api/admin/courses', { token: admin.token, body: { name } });
+      if (response.status !== 201) throw new Error(`Course creation failed: ${JSON.stringify(response.body)}`);
+      return { id: response.body.course.id, inviteCode: response.body.course.inviteCode };
+    },
+
+    async registerStudent(inviteCode, name = 'Student') {
+      const email = nextEmail('student');
+      const password = 'student-password';
+      const response = await request<AuthBody>('POST', '/api/auth/register', { body: { email, password, name, inviteCode } });
+      if (response.status !== 200) throw new Error(`Registration failed: ${JSON.stringify(response.body)}`);
+      return { id: response.body.user.id, email, password, token: response.body.token };
+    },
+
+    // Registers a student of the course, makes them a teacher and assigns the course
+    async createTeacher(admin, courseId) {
+      const { inviteCode } = (await request<CourseBody>('GET', `/api/admin/courses/${courseId}`, { token: admin.token })).body.course;
+      const user = await testServer.registerStudent(inviteCode, 'Teacher');
+      await request('PATCH', `/api/admin/users/${user.id}/role`, { token: admin.token, body: { role: 'teacher' } });
+      const course = (await request<CourseBody>('GET', `/api/admin/courses/${courseId}`, { token: admin.token })).body.course;
+      await request('PATCH', `/api/admin/courses/${courseId}`, {
+        token: admin.token,
+        body: { teacherIds: [...course.teacherIds, user.id] }
+      });
+      return user;
+    },
+
+    async readMails(to) {
+      return new OutboxMailer(dir('outbox'), '').list(to);
+    },
+
+    async close() {
+      await new Promise(resolve => server.close(resolve));
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+  return testServer;
+}
+
+// Waits until a background generation has finished
+export async function waitForProject(server: TestServer, token: string, projectId: string, timeoutMs = 10000): Promise<ProjectBody> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const { status, body: project } = await server.request<ProjectBody>('GET', `/api/projects/${projectId}`, { token });
+    if (status !== 200) throw new Error(`Project ${projectId} answered with ${status}`);
+    if (project.status === 'ready' || project.status === 'failed') return project;
+    if (Date.now() > deadline) throw new Error(`Project ${projectId} is still ${project.status}`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
@@ -0,0 +1,250 @@
+import archiver from 'archiver';
+import * as fs from 'fs';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import path from 'path';
+import { readProjectArchive } from '../src/projects/projectArchive.js';
+import type {
+  GenerateBody, ProjectBody, ProjectsBody, PublicationBody, RenameBody, ShareLinkBody, UsageBody
+} from './helpers/responses.js';
+import { startTestServer, waitForProject, type TestServer, type TestUser } from './helpers/testServer.js';
+
+// Generation runs with the offline mock provider (AI_PROVIDER=mock)
+
+let server: TestServer;
+let admin: TestUser;
+let owner: TestUser;
+let classmate: TestUser;
+
+before(async () => {
+  server = await startTestServer();
+  admin = await server.createAdmin();
+  const course = await server.createCourse(admin, 'Projects 101');
+  owner = await server.registerStudent(course.inviteCode, 'Owner');
+  classmate = await server.registerStudent(course.inviteCode, 'Classmate');
+});
+
+after(() => server.close());
+
+async function generate(user: TestUser, prompt: string): Promise<ProjectBody> {
+  const response = await server.request<GenerateBody>('POST', '/api/generate', { token: user.token, body: { prompt } });
+  assert.equal(response.status, 200);
+  return waitForProject(server, user.token, response.body.project.id);
+}
+
+describe('POST /api/generate', () => {
+  it('creates the project right away and generates it in the background', async () => {
+    const response = await server.request<GenerateBody>('POST', '/api/generate', { token: owner.token, body: { prompt: 'A habit tracker' } });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.success, true);
+    assert.deepEqual(response.body.project.files, []);
+
+    const project = await waitForProject(server, owner.token, response.body.project.id);
+    assert.equal(project.status, 'ready');
+    assert.equal(project.userId, owner.id);
+    assert.equal(project.access, 'owner');
+    assert.deepEqual(project.files.map(f => f.path), ['index.html']);
+    assert.match(project.files[0].content, /A habit tracker/);
+    assert.equal(project.headRevision, 1);
+    assert.equal(project.validation?.ok, true);
+
+    const { body } = await server.request<ProjectsBody>('GET', '/api/projects', { token: owner.token });
+    assert.ok(body.projects.some(p => p.id === project.id));
+  });
+
+  it('records the token usage of every model call', async () => {
+    const before = (await server.request<UsageBody>('GET', '/api/usage', { token: owner.token })).body.today;
+    await generate(owner, 'A reading list');
+
+    // The mock lists the files, writes index.html and finishes
+    const after = (await server.request<UsageBody>('GET', '/api/usage', { token: owner.token })).body.today;
+    assert.equal(after.calls - before.calls, 3);
+    assert.ok(after.totalTokens > before.totalTokens);
+  });
+
+  it('needs a prompt and a login', async () => {
+    assert.equal((await server.request('POST', '/api/generate', { token: owner.token, body: {} })).status, 400);
+    assert.equal((await server.request('POST', '/api/generate', { body: { prompt: 'An app' } })).status, 401);
+  });
+
+  it('only creates new projects, existing ones change through iterate', async () => {
+    const project = await generate(owner, 'A quiz');
+
+    for (const user of [owner, classmate]) {
+      const response = await server.request('POST', '/api/generate', {
+        token: user.token,
+        body: { prompt: 'Something else', projectId: project.id }
+      });
+      assert.equal(response.status, 400);
+    }
+
+    const unchanged = await server.request<ProjectBody>('GET', `/api/projects/${project.id}`, { token: owner.token });
+    assert.equal(unchanged.body.prompt, 'A quiz');
+    assert.deepEqual(unchanged.body.files, project.files);
+  });
+
+  it('rejects project ids that are not safe as file names', async () => {
+    const response = await server.request('POST', '/api/generate', {
+      token: owner.token,
+      body: { prompt: 'Overwrite the users', projectId: '../users/users' }
+    });
+
+    assert.equal(response.status, 400);
+    const users = JSON.parse(fs.readFileSync(path.join(server.dataDir, 'users', 'users.json'), 'utf-8'));
+    assert.ok(users[owner.id]);
+  });
+});
+
+describe('POST /api/projects/:id/iterate', () => {
+  it('changes the files and keeps the prompt history', async () => {
+    const project = await generate(owner, 'A weather app');
+
+    const response = await server.request('POST', `/api/projects/${project.id}/iterate`, {
+      token: owner.token,
+      body: { prompt: 'Add a dark mode' }
+    });
+
+    assert.equal(response.status, 200);
+    const updated = await server.request<ProjectBody>('GET', `/api/projects/${project.id}`, { token: owner.token });
+    assert.equal(updated.body.status, 'ready');
+    assert.match(updated.body.files[0].content, /Requested change: Add a dark mode/);
+    assert.deepEqual(updated.body.promptHistory?.map(p => p.prompt), ['A weather app', 'Add a dark mode']);
+    assert.equal(updated.body.headRevision, 2);
+
+    const revisions = await server.request('GET', `/api/projects/${project.id}/revisions`, { token: owner.token });
+    assert.equal(revisions.status, 200);
+  });
+
+  it('is only allowed for the owner and editors', async () => {
+    const project = await generate(owner, 'A timer');
+
+    const response = await server.request('POST', `/api/projects/${project.id}/iterate`, {
+      token: classmate.token,
+      body: { prompt: 'Break it' }
+    });
+
+    assert.equal(response.status, 403);
+    const unchanged = await server.request<ProjectBody>('GET', `/api/projects/${project.id}`, { token: owner.token });
+    assert.equal(unchanged.body.promptHistory?.length, 1);
+  });
+
+  it('answers 404 for unknown projects', async () => {
+    const response = await server.request('POST', '/api/projects/project_unknown/iterate', {
+      token: owner.token,
+      body: { prompt: 'Change it' }
+    });
+    assert.equal(response.status, 404);
+  });
+});
+
+describe('PATCH /api/projects/:id/rename', () => {
+  it('renames the project of the owner', async () => {
+    const project = await generate(owner, 'A shopping list');
+
+    const response = await server.request<RenameBody>('PATCH', `/api/projects/${project.id}/rename`, {
+      token: owner.token,
+      body: { name: 'Groceries' }
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body.project, { id: project.id, name: 'Groceries' });
+    const renamed = await server.request<ProjectBody>('GET', `/api/projects/${project.id}`, { token: owner.token });
+    assert.equal(renamed.body.name, 'Groceries');
+  });
+
+  it('does not let others rename it', async () => {
+    const project = await generate(owner, 'A calculator');
+
+    const response = await server.request('PATCH', `/api/projects/${project.id}/rename`, {
+      token: classmate.token,
+      body: { name: 'Mine now' }
+    });
+
+    assert.equal(response.status, 403);
+    const unchanged = await server.request<ProjectBody>('GET', `/api/projects/${project.id}`, { token: owner.token });
+    assert.notEqual(unchanged.body.name, 'Mine now');
+  });
+
+  it('lets invited editors rename it', async () => {
+    const project = await generate(owner, 'A flashcard app');
+    const invite = await server.request('POST', `/api/projects/${project.id}/collaborators`, {
+      token: owner.token,
+      body: { email: classmate.email, role: 'editor' }
+    });
+    assert.equal(invite.status, 200);
+
+    const response = await server.request('PATCH', `/api/projects/${project.id}/rename`, {
+      token: classmate.token,
+      body: { name: 'Shared flashcards' }
+    });
+    assert.equal(response.status, 200);
+  });
+});
+
+describe('project ownership', () => {
+  it('hides projects from other students', async () => {
+    const project = await generate(owner, 'A diary');
+
+    assert.equal((await server.request('GET', `/api/projects/${project.id}`, { token: classmate.token })).status, 403);
+    assert.equal((await server.request('GET', `/api/projects/${project.id}/export`, { token: classmate.token })).status, 403);
+    assert.equal((await server.request('GET', `/api/projects/${project.id}/revisions`, { token: classmate.token })).status, 403);
+
+    const { body } = await server.request<ProjectsBody>('GET', '/api/projects', { token: classmate.token });
+    assert.ok(!body.projects.some(p => p.id === project.id));
+
+    const suggestions = await server.request('POST', '/api/ai-suggestions', { token: classmate.token, body: { prompt: 'A diary', projectId: project.id } });
+    assert.equal(suggestions.status, 403);
+  });
+
+  it('only lets the owner and admins delete a project', async () => {
+    const project = await generate(owner, 'A to-do list');
+
+    assert.equal((await server.request('DELETE', `/api/projects/${project.id}`, { token: classmate.token })).status, 403);
+    assert.equal((await server.request('DELETE', `/api/projects/${project.id}`, { token: admin.token })).status, 200);
+    assert.equal((await server.request('GET', `/api/projects/${project.id}`, { token: owner.token })).status, 404);
+  });
+});
+
+describe('previews', () => {
+  it('run the app in a sandbox on every route that serves it', async () => {
+    const project = await generate(owner, 'A guest book');
+    const shareLink = await server.request<ShareLinkBody>('POST', `/api/projects/${project.id}/share-links`, { token: owner.token, body: {} });
+    const publication = await server.request<PublicationBody>('POST', `/api/projects/${project.id}/publish`, { token: owner.token, body: {} });
+
+    // Without the trailing slash the routes redirect to it
+    const urls = [
+      `/preview/${project.id}`,
+      new URL(shareLink.body.shareLink.url).pathname,
+      publication.body.publication.url
+    ];
+    for (const url of urls) {
+      const response = await server.request('GET', url, { token: admin.token });
+      assert.equal(response.status, 200, url);
+      assert.equal(response.headers.get('content-security-policy'), 'sandbox allow-scripts allow-forms allow-modals allow-popups', url);
+      assert.equal(response.headers.get('x-content-type-options'), 'nosniff', url);
+    }
+  });
+});
+
+describe('project archives', () => {
+  function zip(entries: Record<string, string>): Promise<Buffer> {
+    const archive = archiver('zip');
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    for (const [name, content] of Object.entries(entries)) archive.append(content, { name });
+    return archive.finalize().then(() => Buffer.concat(chunks));
+  }
+
+  it('keep only the manifest fields with the expected types', async () => {
+    const manifest = {
+      name: { toString: 'not a name' },
+      prompt: 'A quiz',
+      promptHistory: [null, 'A quiz', { prompt: 'A quiz', timestamp: '2024-05-01T10:00:00.000Z' }, { prompt: 42, timestamp: 'later' }]
+    };
+    const imported = await readProjectArchive(await zip({ 'index.html': '<p>Quiz</p>', 'makeable.json': JSON.stringify(manifest) }));
+
+    assert.deepEqual(imported.manifest, { prompt: 'A quiz', promptHistory: [{ prompt: 'A quiz', timestamp: '2024-05-01T10:00:00.000Z' }] });
+    assert.deepEqual(imported.files.map(f => f.path), ['index.html']);
+  });
+});